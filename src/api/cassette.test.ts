@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type * as CassetteModule from './cassette';
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, TEST_API_KEY, toolError } from '../testing/mcp-harness';
+
+// IDs in the demo cassette are placeholders assigned while recording
+const DEMO_SCENE_ID = '00000000-0000-4000-8000-000000000001';
+const DEMO_EXPORT_JOB_ID = '00000000-0000-4000-8000-000000000009';
+const DEMO_CASSETTE = path.join(__dirname, '../../cassettes/demo.json');
+
+describe('cassettes', () => {
+  let harness: TestHarness;
+  let cassette: typeof CassetteModule;
+
+  beforeAll(async () => {
+    harness = await startHarness({
+      env: { SPLINE_CASSETTE_MODE: 'replay', SPLINE_CASSETTE_PATH: DEMO_CASSETTE },
+    });
+    // Loaded once the harness has configured the environment
+    cassette = await import('./cassette');
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  describe('replay', () => {
+    it('answers tool calls from the cassette without contacting the API', async () => {
+      const scene = await harness.callTool('spline_get_scene', { sceneId: DEMO_SCENE_ID });
+      const variables = await harness.callTool('spline_get_variables', { sceneId: DEMO_SCENE_ID });
+
+      expect(scene.structuredContent).toMatchObject({ id: DEMO_SCENE_ID, name: 'Product Showcase' });
+      expect(variables.structuredContent).toMatchObject({ variables: expect.arrayContaining([{ name: 'headline', value: 'Meet the product', type: 'string' }]) });
+      expect(harness.mock.getRequests()).toHaveLength(0);
+    });
+
+    it('replays repeated requests in recorded order, e.g. export polling', async () => {
+      const job = await harness.callTool('spline_export_and_wait', { sceneId: DEMO_SCENE_ID, format: 'gltf' });
+
+      expect(structured<{ status: string; progress: number }>(job)).toMatchObject({ status: 'completed', progress: 100 });
+    });
+
+    it('replays file downloads, e.g. inline previews and stored exports', async () => {
+      const preview = await harness.callTool('spline_get_preview_image', { sceneId: DEMO_SCENE_ID, width: 400, height: 300, inline: true });
+      const stored = await harness.callTool('spline_store_export', { jobId: DEMO_EXPORT_JOB_ID });
+
+      expect(preview.content).toContainEqual(expect.objectContaining({ type: 'image', mimeType: 'image/jpeg' }));
+      expect(structured<{ sizeBytes: number }>(stored).sizeBytes).toBeGreaterThan(0);
+      expect(harness.mock.getRequests()).toHaveLength(0);
+    });
+
+    it('fails loudly on a download that was not recorded', async () => {
+      const { ImageProcessor } = await import('../utils/image-processor');
+
+      await expect(ImageProcessor.download('http://localhost:3999/files/previews/missing.png'))
+        .rejects.toMatchObject({ code: 'CASSETTE_MISMATCH', message: expect.stringContaining('GET /files/previews/missing.png') });
+    });
+
+    it('fails loudly on a request that was not recorded', async () => {
+      await expect(harness.callTool('spline_get_scene', { sceneId: '00000000-0000-4000-8000-000000000999' }))
+        .rejects.toMatchObject({
+          code: -32603,
+          message: expect.stringContaining('No recorded response for GET /v1/scenes/00000000-0000-4000-8000-000000000999'),
+        });
+    });
+
+    it('fails on a request whose body differs from the recording', async () => {
+      await expect(harness.callTool('spline_set_variable', {
+        sceneId: DEMO_SCENE_ID,
+        name: 'headline',
+        value: 'Something else',
+        type: 'string',
+      })).rejects.toMatchObject({ code: -32603, message: expect.stringContaining('with body') });
+    });
+
+    it('replays recorded error responses as failed requests', async () => {
+      const recording = path.join(harness.dataDir, 'not-found.json');
+      fs.writeFileSync(recording, JSON.stringify({
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        interactions: [{
+          request: { method: 'GET', path: '/v1/scenes/x' },
+          response: { status: 404, headers: { 'content-type': 'application/json' }, body: { message: 'Scene not found' } },
+        }],
+      }));
+      const player = cassette.CassettePlayer.load(recording);
+
+      await expect(axios.create({ adapter: player.adapter }).get('http://spline.invalid/v1/scenes/x'))
+        .rejects.toMatchObject({ response: { status: 404, data: { message: 'Scene not found' } } });
+      expect(player.unplayedCount).toBe(0);
+    });
+
+    it('gives the circuit slot of a request it has no recording for back', async () => {
+      const { config } = await import('../config/config');
+      const { SplineApiClient } = await import('./spline-api-client');
+      const recording = path.join(harness.dataDir, 'outage.json');
+      fs.writeFileSync(recording, JSON.stringify({
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        interactions: [
+          { request: { method: 'GET', path: '/v1/scenes/x' }, response: { status: 500, headers: {}, body: { message: 'Down' } } },
+          { request: { method: 'GET', path: '/v1/scenes/x' }, response: { status: 200, headers: {}, body: { id: 'x' } } },
+        ],
+      }));
+      const saved = { cassettePath: config.spline.cassette.path, circuitBreaker: { ...config.spline.circuitBreaker } };
+      config.spline.cassette.path = recording;
+      Object.assign(config.spline.circuitBreaker, { failureThreshold: 1, resetTimeoutMs: 50, halfOpenMaxCalls: 1 });
+
+      try {
+        const client = SplineApiClient.create();
+        await expect(client.get('/scenes/x', { retry: false })).rejects.toMatchObject({ upstreamStatus: 500 });
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        await expect(client.get('/scenes/y')).rejects.toMatchObject({ code: 'CASSETTE_MISMATCH' });
+        await expect(client.get('/scenes/x')).resolves.toMatchObject({ data: { id: 'x' } });
+        expect(client.getCircuitStatus().state).toBe('closed');
+      } finally {
+        config.spline.cassette.path = saved.cassettePath;
+        Object.assign(config.spline.circuitBreaker, saved.circuitBreaker);
+      }
+    });
+
+    it('refuses to load a missing cassette', () => {
+      expect(() => cassette.CassettePlayer.load(path.join(harness.dataDir, 'missing.json')))
+        .toThrow(/Cannot read cassette/);
+    });
+  });
+
+  describe('record', () => {
+    it('writes interactions without credentials and with placeholder IDs, replayable offline', async () => {
+      const recording = path.join(harness.dataDir, 'recorded', 'session.json');
+      const recorder = new cassette.CassetteRecorder(recording, [TEST_API_KEY]);
+      const http = axios.create({
+        baseURL: `${harness.mock.url}/v1`,
+        headers: { Authorization: `Bearer ${TEST_API_KEY}` },
+        adapter: recorder.adapter(axios.getAdapter(axios.defaults.adapter)),
+      });
+
+      const { data: created } = await http.post('/scenes', { name: `Made with key ${TEST_API_KEY}` });
+      await http.get(`/scenes/${created.id}`);
+      await expect(http.get('/scenes/00000000-0000-4000-8000-00000000dead')).rejects.toMatchObject({ response: { status: 404 } });
+
+      const text = fs.readFileSync(recording, 'utf8');
+      const { interactions } = JSON.parse(text) as CassetteModule.CassetteFile;
+      expect(text).not.toContain(TEST_API_KEY);
+      expect(text).not.toContain(created.id);
+      expect(text).not.toMatch(/authorization|x-request-id/i);
+      expect(interactions.map(({ request, response }) => `${request.method} ${request.path} ${response.status}`)).toEqual([
+        'POST /v1/scenes 201',
+        'GET /v1/scenes/00000000-0000-4000-8000-000000000001 200',
+        'GET /v1/scenes/00000000-0000-4000-8000-000000000002 404',
+      ]);
+      expect(interactions[0].request.body).toEqual({ name: 'Made with key [REDACTED]' });
+
+      const replay = axios.create({ baseURL: 'http://spline.invalid/v1', adapter: cassette.CassettePlayer.load(recording).adapter });
+      const { data: scene } = await replay.get('/scenes/00000000-0000-4000-8000-000000000001');
+      expect(scene).toMatchObject({ id: '00000000-0000-4000-8000-000000000001', name: 'Made with key [REDACTED]' });
+      await expect(replay.get('/scenes/00000000-0000-4000-8000-000000000001')).rejects.toThrow(/already played/);
+    });
+
+    it('replaces IDs found by property name and path position, whatever their format', async () => {
+      const recording = path.join(harness.dataDir, 'recorded', 'ids.json');
+      const recorder = new cassette.CassetteRecorder(recording);
+      const upstream = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => ({
+        data: JSON.stringify({
+          id: 'scene-abc',
+          name: 'Not an ID: 00000000-0000-4000-8000-0000000000aa',
+          url: 'https://my.spline.design/scene-abc',
+          objects: [{ id: 'obj-1', sceneId: 'scene-abc' }],
+          selection: { objectIds: ['obj-2'] },
+        }),
+        status: 200,
+        statusText: 'OK',
+        headers: { 'content-type': 'application/json' },
+        config: requestConfig,
+      });
+      const http = axios.create({ baseURL: 'http://spline.invalid/v1', adapter: recorder.adapter(upstream) });
+
+      await http.get('/scenes/scene-abc');
+
+      const [interaction] = (JSON.parse(fs.readFileSync(recording, 'utf8')) as CassetteModule.CassetteFile).interactions;
+      expect(interaction.request.path).toBe('/v1/scenes/00000000-0000-4000-8000-000000000001');
+      expect(interaction.response.body).toEqual({
+        id: '00000000-0000-4000-8000-000000000001',
+        name: 'Not an ID: 00000000-0000-4000-8000-0000000000aa',
+        url: 'https://my.spline.design/00000000-0000-4000-8000-000000000001',
+        objects: [{ id: '00000000-0000-4000-8000-000000000002', sceneId: '00000000-0000-4000-8000-000000000001' }],
+        selection: { objectIds: ['00000000-0000-4000-8000-000000000003'] },
+      });
+    });
+
+    it('records downloaded files and replays them in the requested response type', async () => {
+      const recording = path.join(harness.dataDir, 'recorded', 'download.json');
+      const recorder = new cassette.CassetteRecorder(recording);
+      const http = axios.create({ adapter: recorder.adapter(axios.getAdapter(axios.defaults.adapter)) });
+      const url = `${harness.mock.url}/files/previews/${MOCK_SCENE_ID}.png?width=200&height=100`;
+
+      const { data: stream } = await http.get<Readable>(url, { responseType: 'stream' });
+      const downloaded = Buffer.concat(await stream.toArray());
+
+      const [interaction] = (JSON.parse(fs.readFileSync(recording, 'utf8')) as CassetteModule.CassetteFile).interactions;
+      expect(interaction.response).toMatchObject({ encoding: 'base64', headers: { 'content-type': 'image/png' } });
+
+      const replay = axios.create({ adapter: cassette.CassettePlayer.load(recording, { allowRepeats: true }).adapter });
+      const replayedPath = new URL(url).pathname.replace(MOCK_SCENE_ID, '00000000-0000-4000-8000-000000000001');
+      const { data: replayed } = await replay.get<Buffer>(`http://files.invalid${replayedPath}?width=200&height=100`, { responseType: 'arraybuffer' });
+      expect(Buffer.compare(replayed, downloaded)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Logger } from '../utils/logger';
+import { SplineError } from '../utils/error-handler';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteRequest {
+  method: string;
+  /** Path and query below the origin, e.g. `/v1/scenes?limit=10`, or the path of a download URL */
+  path: string;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON, the raw text for other responses, or base64 for files */
+  body?: unknown;
+  /** Set when `body` holds a downloaded file, e.g. an export or a preview image */
+  encoding?: 'base64';
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassettePlayerOptions {
+  /** Once every recording of a request was played, keep answering with the last one */
+  allowRepeats?: boolean;
+}
+
+// Properties holding an ID or a list of them, e.g. `id`, `sceneId` or `objectIds`
+const ID_KEY = /^(id|.+Id)s?$/;
+// Path segments after these name the resource by ID, e.g. `/scenes/<id>` or `/files/previews/<id>.png`
+const ID_COLLECTIONS = new Set(['scenes', 'objects', 'jobs', 'exports', 'previews']);
+// Separates the tokens of paths, URLs and text in which a known ID is replaced
+const TOKEN = /[^\s/?#&=]+/g;
+// Everything else, request IDs and cookies included, is dropped from recorded responses
+const RECORDED_HEADERS = /^(content-type|retry-after|x-ratelimit-.+|ratelimit(-.+)?)$/i;
+
+function requestPath(requestConfig: InternalAxiosRequestConfig): string {
+  const url = new URL(axios.getUri(requestConfig));
+  return `${url.pathname}${url.search}`;
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data ?? undefined;
+  }
+  if (data === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** JSON with sorted keys, so bodies match regardless of property order */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested);
+}
+
+function interactionKey(request: CassetteRequest): string {
+  return `${request.method.toUpperCase()} ${request.path} ${canonical(request.body ?? null)}`;
+}
+
+/** The ID a path, URL or file name token stands for: the token itself, or its name without the extension */
+function tokenId(token: string): string {
+  return token.split('.')[0];
+}
+
+/**
+ * Records Spline API traffic to a cassette file. Nothing identifying is written: the `Authorization`
+ * header and any other request headers are left out, and every ID, whether found in an ID property
+ * or after a collection in a request path, is replaced by a placeholder that stays the same
+ * throughout the cassette, wherever the ID appears, so replayed responses and the requests built
+ * from them keep matching.
+ */
+export class CassetteRecorder {
+  private interactions: CassetteInteraction[] = [];
+  private placeholders = new Map<string, string>();
+
+  /**
+   * @param secrets Values replaced by `[REDACTED]` wherever they appear, e.g. the API key
+   */
+  constructor(private filePath: string, private secrets: string[] = []) {
+    Logger.info('Recording Spline API traffic', { cassette: filePath });
+  }
+
+  adapter(next: AxiosAdapter): AxiosAdapter {
+    return async (requestConfig) => {
+      let response: AxiosResponse;
+      try {
+        response = await next(requestConfig);
+      } catch (error) {
+        // Error answers are part of the conversation; network failures have nothing to replay
+        if (error instanceof AxiosError && error.response) {
+          error.response = await this.record(requestConfig, error.response);
+        }
+        throw error;
+      }
+      return this.record(requestConfig, response);
+    };
+  }
+
+  /**
+   * Records the interaction and returns the response to hand on. Streamed downloads are read
+   * in full to be recorded, so the response carries a fresh stream of the same data.
+   */
+  private async record(requestConfig: InternalAxiosRequestConfig, response: AxiosResponse): Promise<AxiosResponse> {
+    const file = response.data instanceof Readable ? await readStream(response.data) : undefined;
+    const data = file ?? response.data;
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (RECORDED_HEADERS.test(name) && value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = String(value);
+      }
+    }
+
+    this.interactions.push(this.scrub({
+      request: {
+        method: (requestConfig.method ?? 'get').toUpperCase(),
+        path: requestPath(requestConfig),
+        body: parseBody(requestConfig.data),
+      },
+      response: Buffer.isBuffer(data)
+        ? { status: response.status, headers, body: data.toString('base64'), encoding: 'base64' }
+        : { status: response.status, headers, body: parseBody(data) },
+    }));
+    this.save();
+
+    return file ? { ...response, data: Readable.from([file]) } : response;
+  }
+
+  private scrub(interaction: CassetteInteraction): CassetteInteraction {
+    let json = JSON.stringify(interaction);
+    for (const secret of this.secrets.filter(Boolean)) {
+      json = json.split(secret).join('[REDACTED]');
+    }
+    const redacted: CassetteInteraction = JSON.parse(json);
+
+    // Assigned in the order IDs appear, so a cassette recorded twice gets the same placeholders
+    const segments = redacted.request.path.split('?')[0].split('/');
+    segments.forEach((segment, index) => {
+      if (index > 0 && ID_COLLECTIONS.has(segments[index - 1])) {
+        this.placeholderFor(tokenId(segment));
+      }
+    });
+    this.collectIds(redacted.request.body);
+    this.collectIds(redacted.response.body);
+
+    const { request, response } = redacted;
+    return {
+      request: this.replaceIds(request) as CassetteRequest,
+      // A downloaded file is left as it was, its base64 text only looks like tokens
+      response: response.encoding === 'base64'
+        ? { ...response, headers: this.replaceIds(response.headers) as Record<string, string> }
+        : this.replaceIds(response) as CassetteResponse,
+    };
+  }
+
+  private collectIds(value: unknown) {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collectIds(item));
+    } else if (value && typeof value === 'object') {
+      for (const [key, nested] of Object.entries(value)) {
+        const ids = ID_KEY.test(key) ? [nested].flat() : [];
+        if (ids.length > 0 && ids.every(id => typeof id === 'string' && id !== '')) {
+          ids.forEach(id => this.placeholderFor(id));
+        } else {
+          this.collectIds(nested);
+        }
+      }
+    }
+  }
+
+  private placeholderFor(id: string): string {
+    if (!this.placeholders.has(id)) {
+      this.placeholders.set(id, `00000000-0000-4000-8000-${String(this.placeholders.size + 1).padStart(12, '0')}`);
+    }
+    return this.placeholders.get(id)!;
+  }
+
+  /** Replaces every known ID in string values, including inside paths, URLs and file names */
+  private replaceIds(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return value.replace(TOKEN, (token) => {
+        const id = this.placeholders.has(token) ? token : tokenId(token);
+        return this.placeholders.has(id) ? this.placeholders.get(id)! + token.slice(id.length) : token;
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.replaceIds(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, this.replaceIds(nested)]));
+    }
+    return value;
+  }
+
+  /**
+   * Written synchronously after every interaction so a recording survives the server being stopped at any point.
+   */
+  private save() {
+    const cassette: CassetteFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(cassette, null, 2) + '\n');
+  }
+}
+
+/**
+ * Answers Spline API requests from a cassette without touching the network. Requests are matched on
+ * method, path and body, and identical requests get their recorded responses in order, so polling an
+ * export replays its progress. A request the cassette has no answer for fails the call loudly.
+ */
+export class CassettePlayer {
+  private remaining = new Map<string, CassetteInteraction[]>();
+  private lastPlayed = new Map<string, CassetteInteraction>();
+
+  constructor(private cassette: CassetteFile, private filePath: string, private options: CassettePlayerOptions = {}) {
+    for (const interaction of cassette.interactions) {
+      const key = interactionKey(interaction.request);
+      this.remaining.set(key, [...(this.remaining.get(key) ?? []), interaction]);
+    }
+  }
+
+  /**
+   * Reads a cassette, throwing at startup rather than on the first request when it is missing or malformed.
+   */
+  static load(filePath: string, options: CassettePlayerOptions = {}): CassettePlayer {
+    let cassette: CassetteFile;
+    try {
+      cassette = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read cassette ${filePath}: ${(error as Error).message}`);
+    }
+    if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+      throw new Error(`Cannot read cassette ${filePath}: unsupported format`);
+    }
+
+    Logger.info('Replaying Spline API traffic', { cassette: filePath, interactions: cassette.interactions.length });
+    return new CassettePlayer(cassette, filePath, options);
+  }
+
+  /** Recorded interactions not played yet */
+  get unplayedCount(): number {
+    return [...this.remaining.values()].reduce((count, queue) => count + queue.length, 0);
+  }
+
+  readonly adapter: AxiosAdapter = async (requestConfig) => {
+    const request: CassetteRequest = {
+      method: (requestConfig.method ?? 'get').toUpperCase(),
+      path: requestPath(requestConfig),
+      body: parseBody(requestConfig.data),
+    };
+    const key = interactionKey(request);
+    const interaction = this.remaining.get(key)?.shift()
+      ?? (this.options.allowRepeats ? this.lastPlayed.get(key) : undefined);
+
+    if (!interaction) {
+      const played = this.lastPlayed.has(key);
+      throw new SplineError(
+        `No recorded response for ${request.method} ${request.path}${request.body === undefined ? '' : ` with body ${canonical(request.body)}`} ` +
+          `in cassette ${this.filePath}` +
+          (played ? ' (all recordings of this request were already played)' : ''),
+        500,
+        'CASSETTE_MISMATCH',
+        false
+      );
+    }
+    this.lastPlayed.set(key, interaction);
+
+    const { status, headers, body, encoding } = interaction.response;
+    const response: AxiosResponse = {
+      data: encoding === 'base64'
+        ? CassettePlayer.fileData(Buffer.from(String(body), 'base64'), requestConfig)
+        // Raw text, as the network adapter returns it, for transformResponse to parse
+        : typeof body === 'string' ? body : body === undefined ? '' : JSON.stringify(body),
+      status,
+      statusText: '',
+      headers: AxiosHeaders.from(headers),
+      config: requestConfig,
+      request: {},
+    };
+
+    const validateStatus = requestConfig.validateStatus;
+    if (validateStatus && !validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        requestConfig,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+
+  /**
+   * A recorded file in the shape the network adapter returns for the requested response type.
+   */
+  private static fileData(file: Buffer, requestConfig: InternalAxiosRequestConfig): unknown {
+    if (requestConfig.responseType === 'stream') {
+      return Readable.from([file]);
+    }
+    return requestConfig.responseType === 'arraybuffer' ? file : file.toString('utf8');
+  }
+}
@@ -0,0 +1,119 @@
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { SplineApiError } from '../utils/error-handler';
+import { Metrics } from '../monitoring/metrics';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before trial requests are let through */
+  resetTimeoutMs: number;
+  /** Concurrent trial requests allowed while half-open */
+  halfOpenMaxCalls: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Stops sending requests to the Spline API after repeated failures so tool calls fail fast
+ * instead of each waiting for the full timeout. After `resetTimeoutMs` a limited number of
+ * trial requests are allowed; one success closes the circuit, one failure re-opens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private halfOpenCalls = 0;
+
+  constructor(private options: CircuitBreakerOptions = config.spline.circuitBreaker) {
+    Metrics.recordCircuitState(this.state);
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.currentState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt) : undefined,
+      nextAttemptAt: this.openedAt ? new Date(this.openedAt + this.options.resetTimeoutMs) : undefined,
+    };
+  }
+
+  /**
+   * Throws a SplineApiError if the request must not be sent right now.
+   */
+  beforeRequest() {
+    const state = this.currentState();
+
+    if (state === 'open' || (state === 'half-open' && this.halfOpenCalls >= this.options.halfOpenMaxCalls)) {
+      Metrics.recordCircuitRejection();
+      const retryInSeconds = Math.max(1, Math.ceil((this.openedAt! + this.options.resetTimeoutMs - Date.now()) / 1000));
+      throw new SplineApiError(
+        `Spline API is unavailable after ${this.consecutiveFailures} consecutive failures, not retrying for ${retryInSeconds}s`,
+        503
+      );
+    }
+
+    if (state === 'half-open') {
+      this.halfOpenCalls++;
+    }
+  }
+
+  /**
+   * Gives back the trial slot of a request that ended without an answer from the API,
+   * e.g. one the caller aborted or that never got upstream rate-limit budget.
+   */
+  release() {
+    if (this.state === 'half-open' && this.halfOpenCalls > 0) {
+      this.halfOpenCalls--;
+    }
+  }
+
+  onSuccess() {
+    if (this.state !== 'closed') {
+      Logger.info('Spline API circuit closed', { previousState: this.state });
+    }
+
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.halfOpenCalls = 0;
+    this.transition('closed');
+  }
+
+  onFailure() {
+    this.consecutiveFailures++;
+
+    if (this.currentState() === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        Logger.warn('Spline API circuit opened', {
+          consecutiveFailures: this.consecutiveFailures,
+          resetTimeoutMs: this.options.resetTimeoutMs,
+        });
+      }
+
+      this.openedAt = Date.now();
+      this.halfOpenCalls = 0;
+      this.transition('open');
+    }
+  }
+
+  private currentState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.options.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  private transition(state: CircuitState) {
+    if (this.state !== state) {
+      this.state = state;
+      Metrics.recordCircuitState(state);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import type { SplineApiClient as SplineApiClientType } from './spline-api-client';
+import { MOCK_SCENE_ID, startHarness, TestHarness } from '../testing/mcp-harness';
+
+const RESET_TIMEOUT_MS = 100;
+
+describe('SplineApiClient circuit breaker', () => {
+  let harness: TestHarness;
+  let SplineApiClient: typeof SplineApiClientType;
+  let client: SplineApiClientType;
+
+  const getScene = (requestConfig = {}) => client.get(`/scenes/${MOCK_SCENE_ID}`, requestConfig);
+  const waitForHalfOpen = () => new Promise(resolve => setTimeout(resolve, RESET_TIMEOUT_MS + 50));
+
+  beforeAll(async () => {
+    harness = await startHarness({
+      env: {
+        SPLINE_MAX_RETRIES: '0',
+        SPLINE_CIRCUIT_FAILURE_THRESHOLD: '1',
+        SPLINE_CIRCUIT_RESET_TIMEOUT_MS: String(RESET_TIMEOUT_MS),
+        SPLINE_RATE_LIMIT_MAX_WAIT_MS: '0',
+      },
+    });
+    // Loaded once the harness has configured the environment
+    ({ SplineApiClient } = await import('./spline-api-client'));
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+    client = SplineApiClient.create();
+  });
+
+  it('gives the half-open trial slot back when the upstream budget is exhausted', async () => {
+    // A 429 marks the budget as spent until Retry-After, longer than requests may wait
+    harness.mock.addFault({ status: 429, path: '/scenes', times: 1 });
+    await expect(getScene()).rejects.toMatchObject({ upstreamStatus: 429 });
+    harness.mock.addFault({ status: 500, path: '/scenes', times: 1 });
+    await expect(getScene({ throttle: false })).rejects.toMatchObject({ upstreamStatus: 500 });
+    expect(client.getCircuitStatus().state).toBe('open');
+
+    await waitForHalfOpen();
+    await expect(getScene()).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED' });
+    expect(client.getCircuitStatus().state).toBe('half-open');
+
+    await expect(getScene({ throttle: false })).resolves.toMatchObject({ status: 200 });
+    expect(client.getCircuitStatus().state).toBe('closed');
+  });
+
+  it('does not count requests the caller aborted as failures', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(getScene({ signal: controller.signal })).rejects.toBeDefined();
+    expect(client.getCircuitStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('gives the half-open trial slot back when the trial request is aborted', async () => {
+    harness.mock.addFault({ status: 500, path: '/scenes', times: 1 });
+    await expect(getScene()).rejects.toMatchObject({ upstreamStatus: 500 });
+    await waitForHalfOpen();
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(getScene({ signal: controller.signal })).rejects.toBeDefined();
+
+    await expect(getScene()).resolves.toMatchObject({ status: 200 });
+    expect(client.getCircuitStatus().state).toBe('closed');
+  });
+
+  it('stops waiting to retry once the request is aborted', async () => {
+    // The mock's 429 asks for a retry after a second
+    harness.mock.addFault({ status: 429, path: '/scenes', times: 1 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const started = Date.now();
+
+    await expect(getScene({ signal: controller.signal, throttle: false, retry: { maxRetries: 1, maxDelayMs: 5000 } }))
+      .rejects.toMatchObject({ upstreamStatus: undefined, retryable: false });
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(harness.mock.getRequests()).toHaveLength(1);
+  });
+});
+
+describe('UpstreamRateLimiter', () => {
+  // Imported once a harness has set up the environment the config module reads on import
+  let UpstreamRateLimiter: typeof import('./upstream-rate-limiter').UpstreamRateLimiter;
+  let config: typeof import('../config/config').config;
+  let saved: { baseDelayMs: number; maxWaitMs: number };
+
+  beforeAll(async () => {
+    ({ UpstreamRateLimiter } = await import('./upstream-rate-limiter'));
+    ({ config } = await import('../config/config'));
+    saved = { baseDelayMs: config.spline.retry.baseDelayMs, maxWaitMs: config.spline.rateLimit.maxWaitMs };
+    config.spline.retry.baseDelayMs = 500;
+    config.spline.rateLimit.maxWaitMs = 1500;
+  });
+
+  afterAll(() => {
+    config.spline.retry.baseDelayMs = saved.baseDelayMs;
+    config.spline.rateLimit.maxWaitMs = saved.maxWaitMs;
+  });
+
+  it('backs off exponentially on 429s without Retry-After, up to the longest wait', () => {
+    const limiter = new UpstreamRateLimiter();
+    const rejectedFor = () => {
+      limiter.update(undefined, 429, null);
+      return Math.round((limiter.getStatus().reset!.getTime() - Date.now()) / 100) * 100;
+    };
+
+    expect([rejectedFor(), rejectedFor(), rejectedFor()]).toEqual([500, 1000, 1500]);
+    limiter.update({}, 200);
+    expect(rejectedFor()).toBe(500);
+  });
+
+  it('waits as long as Retry-After asks', () => {
+    const limiter = new UpstreamRateLimiter();
+    limiter.update(undefined, 429, 1200);
+
+    expect(Math.round((limiter.getStatus().reset!.getTime() - Date.now()) / 100) * 100).toBe(1200);
+  });
+});
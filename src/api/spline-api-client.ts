@@ -0,0 +1,384 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  CanceledError,
+  GenericAbortSignal,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { NotFoundError, SplineApiError, SplineError } from '../utils/error-handler';
+import { Metrics } from '../monitoring/metrics';
+import { RateLimitStatus, UpstreamRateLimiter } from './upstream-rate-limiter';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuit-breaker';
+import { CassettePlayer, CassetteRecorder } from './cassette';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Also retry 5xx and network failures for non-idempotent methods (POST) */
+  retryNonIdempotent: boolean;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Resource name used in the NotFoundError raised for a 404 */
+    resourceName?: string;
+    /** Per-request retry overrides, or `false` to disable retries */
+    retry?: Partial<RetryOptions> | false;
+    /** Number of retries already made for this request */
+    retryAttempt?: number;
+    /** Set to `false` to send without waiting for upstream rate-limit budget */
+    throttle?: boolean;
+    /** Set to `false` to bypass the circuit breaker, e.g. for health probes */
+    circuitBreaker?: boolean;
+  }
+}
+
+export type SplineRequestConfig = AxiosRequestConfig;
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'patch', 'delete']);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE', 'ERR_NETWORK']);
+
+/**
+ * Single outbound client for the Spline REST API shared by all managers.
+ * Handles authentication headers, request IDs, metrics, retries with backoff and error mapping.
+ */
+export class SplineApiClient {
+  private static sharedInstance?: SplineApiClient;
+
+  private constructor(
+    private readonly http: AxiosInstance,
+    private readonly files: AxiosInstance,
+    private readonly rateLimiter: UpstreamRateLimiter,
+    private readonly circuitBreaker: CircuitBreaker,
+    private readonly defaults: SplineRequestConfig = {}
+  ) {}
+
+  static shared(): SplineApiClient {
+    if (!this.sharedInstance) {
+      this.sharedInstance = SplineApiClient.create();
+    }
+    return this.sharedInstance;
+  }
+
+  static create(): SplineApiClient {
+    // One transport for both, so API calls and downloads share a cassette
+    const adapter = SplineApiClient.createAdapter();
+    const circuitBreaker = new CircuitBreaker();
+    const http = axios.create({
+      baseURL: `${config.spline.apiBaseUrl}/${config.spline.apiVersion}`,
+      timeout: config.spline.timeout,
+      headers: {
+        'Authorization': `Bearer ${config.spline.apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'Spline-MCP-Server/1.0.0',
+      },
+      adapter: SplineApiClient.releasingAdapter(adapter, circuitBreaker),
+    });
+    const files = axios.create({
+      headers: { 'User-Agent': 'Spline-MCP-Server/1.0.0' },
+      adapter,
+    });
+
+    const client = new SplineApiClient(http, files, new UpstreamRateLimiter(), circuitBreaker);
+    client.setupInterceptors();
+    return client;
+  }
+
+  /**
+   * The transport for requests: the network, optionally recorded to a cassette, or a cassette replay.
+   */
+  private static createAdapter(): AxiosAdapter | undefined {
+    const { mode, path, allowRepeats } = config.spline.cassette;
+
+    if (mode === 'replay') {
+      return CassettePlayer.load(path, { allowRepeats }).adapter;
+    }
+    if (mode === 'record') {
+      return new CassetteRecorder(path, [config.spline.apiKey]).adapter(axios.getAdapter(axios.defaults.adapter));
+    }
+    return undefined;
+  }
+
+  /**
+   * Wraps the transport so a request it fails without any answer, e.g. one a cassette has no recording
+   * of, gives back its circuit slot. HTTP and network errors are judged by the response interceptor.
+   */
+  private static releasingAdapter(adapter: AxiosAdapter | undefined, circuitBreaker: CircuitBreaker): AxiosAdapter {
+    const transport = axios.getAdapter(adapter ?? axios.defaults.adapter);
+    return async (requestConfig) => {
+      try {
+        return await transport(requestConfig);
+      } catch (error) {
+        if (!(error instanceof AxiosError) && requestConfig.circuitBreaker !== false) {
+          circuitBreaker.release();
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Returns a view of this client whose requests default to the given config,
+   * e.g. the resource name reported when the API answers 404.
+   */
+  withDefaults(defaults: SplineRequestConfig): SplineApiClient {
+    return new SplineApiClient(this.http, this.files, this.rateLimiter, this.circuitBreaker, { ...this.defaults, ...defaults });
+  }
+
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.getStatus();
+  }
+
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
+  }
+
+  request<T = any>(requestConfig: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.http.request<T>({ ...this.defaults, ...requestConfig });
+  }
+
+  get<T = any>(url: string, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...requestConfig, method: 'get', url });
+  }
+
+  post<T = any>(url: string, data?: any, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...requestConfig, method: 'post', url, data });
+  }
+
+  put<T = any>(url: string, data?: any, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...requestConfig, method: 'put', url, data });
+  }
+
+  patch<T = any>(url: string, data?: any, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...requestConfig, method: 'patch', url, data });
+  }
+
+  delete<T = any>(url: string, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...requestConfig, method: 'delete', url });
+  }
+
+  /**
+   * Fetches a file from a URL the API handed out, e.g. an export download or a rendered preview.
+   * These URLs are signed, so no credentials are sent, and they are not subject to the API's rate
+   * limit or circuit breaker, but they are recorded and replayed with the API traffic.
+   */
+  download<T = any>(url: string, requestConfig?: SplineRequestConfig): Promise<AxiosResponse<T>> {
+    return this.files.get<T>(url, requestConfig);
+  }
+
+  private setupInterceptors() {
+    this.http.interceptors.request.use(
+      async (requestConfig) => {
+        const guarded = requestConfig.circuitBreaker !== false;
+        if (guarded) {
+          this.circuitBreaker.beforeRequest();
+        }
+        if (requestConfig.throttle !== false) {
+          try {
+            await this.rateLimiter.acquire();
+          } catch (error) {
+            // Never sent, so it must not keep a half-open trial slot
+            if (guarded) {
+              this.circuitBreaker.release();
+            }
+            throw error;
+          }
+        }
+
+        // Retries keep the request ID of the original attempt
+        if (!requestConfig.headers['X-Request-ID']) {
+          requestConfig.headers['X-Request-ID'] = uuidv4();
+        }
+        Metrics.markSplineApiRequestStart(requestConfig);
+        Logger.debug('Spline API request', {
+          method: requestConfig.method,
+          url: requestConfig.url,
+          requestId: requestConfig.headers['X-Request-ID'],
+          attempt: (requestConfig.retryAttempt ?? 0) + 1,
+        });
+        return requestConfig;
+      },
+      (error) => Promise.reject(error)
+    );
+
+    this.http.interceptors.response.use(
+      (response) => {
+        this.rateLimiter.update(response.headers, response.status);
+        if (response.config.circuitBreaker !== false) {
+          this.circuitBreaker.onSuccess();
+        }
+        Metrics.recordSplineApiResponse(response.config, response.status);
+        Logger.debug('Spline API response', {
+          status: response.status,
+          requestId: response.config.headers['X-Request-ID'],
+        });
+        return response;
+      },
+      async (error: AxiosError<any>) => {
+        // Raised by our own request interceptor (e.g. rate-limit budget exhausted)
+        if (error instanceof SplineError) {
+          throw error;
+        }
+
+        const requestConfig = error.config;
+        const requestId = requestConfig?.headers?.['X-Request-ID'];
+        this.rateLimiter.update(
+          error.response?.headers,
+          error.response?.status,
+          SplineApiClient.parseRetryAfter(error.response?.headers?.['retry-after'])
+        );
+        Metrics.recordSplineApiResponse(requestConfig, error.response?.status);
+
+        if (requestConfig?.circuitBreaker !== false) {
+          // Only outages count against the circuit; 4xx answers prove the API is up
+          const status = error.response?.status;
+          if (axios.isCancel(error)) {
+            // Aborted by the caller, which says nothing about the API's health
+            this.circuitBreaker.release();
+          } else if (status === undefined || status >= 500) {
+            this.circuitBreaker.onFailure();
+          } else {
+            this.circuitBreaker.onSuccess();
+          }
+        }
+
+        const retryDelay = requestConfig ? this.getRetryDelay(error, requestConfig) : null;
+        if (requestConfig && retryDelay !== null) {
+          requestConfig.retryAttempt = (requestConfig.retryAttempt ?? 0) + 1;
+          Logger.warn('Retrying Spline API request', {
+            method: requestConfig.method,
+            url: requestConfig.url,
+            status: error.response?.status,
+            code: error.code,
+            attempt: requestConfig.retryAttempt,
+            delayMs: retryDelay,
+            requestId,
+          });
+
+          await SplineApiClient.backoff(retryDelay, requestConfig.signal);
+          if (requestConfig.signal?.aborted) {
+            // Fail as the aborted request itself would, rather than after the rest of the delay
+            throw this.toSplineError(new CanceledError(undefined, undefined, requestConfig));
+          }
+          return this.http.request(requestConfig);
+        }
+
+        Logger.error('Spline API error', {
+          status: error.response?.status,
+          message: error.response?.data?.message || error.message,
+          requestId,
+        });
+
+        throw this.toSplineError(error);
+      }
+    );
+  }
+
+  /**
+   * Returns how long to wait before retrying the failed request, or null if it should not be retried.
+   */
+  private getRetryDelay(error: AxiosError, requestConfig: InternalAxiosRequestConfig): number | null {
+    if (requestConfig.retry === false) {
+      return null;
+    }
+
+    const options: RetryOptions = { ...config.spline.retry, ...requestConfig.retry };
+    const attempt = (requestConfig.retryAttempt ?? 0) + 1;
+    if (attempt > options.maxRetries) {
+      return null;
+    }
+
+    const status = error.response?.status;
+    const idempotent = IDEMPOTENT_METHODS.has((requestConfig.method ?? 'get').toLowerCase());
+
+    if (status === 429) {
+      // Rejected before processing, always safe to retry
+    } else if (status !== undefined && status >= 500) {
+      if (!idempotent && !options.retryNonIdempotent) {
+        return null;
+      }
+    } else if (status === undefined && error.code && RETRYABLE_NETWORK_CODES.has(error.code)) {
+      if (!idempotent && !options.retryNonIdempotent) {
+        return null;
+      }
+    } else {
+      return null;
+    }
+
+    const retryAfterMs = SplineApiClient.parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfterMs !== null) {
+      // Waiting longer than the configured ceiling would stall the tool call, fail instead
+      return retryAfterMs <= options.maxDelayMs ? retryAfterMs : null;
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Waits before a retry, returning early once `signal` aborts.
+   */
+  private static backoff(ms: number, signal?: GenericAbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        return resolve();
+      }
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener?.('abort', done);
+
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener?.('abort', done);
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Parses a Retry-After header given either in seconds or as an HTTP date.
+   */
+  static parseRetryAfter(header: unknown): number | null {
+    if (typeof header !== 'string' || header.trim() === '') {
+      return null;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private toSplineError(error: AxiosError<any>): SplineError {
+    const status = error.response?.status;
+    const details = {
+      upstreamStatus: status,
+      // Prefer the ID Spline assigned, fall back to the one we sent
+      splineRequestId: error.response?.headers?.['x-request-id'] ?? error.config?.headers?.['X-Request-ID'],
+      cause: error,
+    };
+
+    if (status === 404) {
+      return new NotFoundError(error.config?.resourceName ?? 'Resource');
+    } else if (status !== undefined && status >= 400 && status < 500) {
+      return new SplineApiError(error.response?.data?.message || 'Client error', status, details);
+    } else if (status !== undefined && status >= 500) {
+      return new SplineApiError('Server error', status, details);
+    }
+
+    return new SplineApiError(error.message, 502, {
+      ...details,
+      retryable: error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code),
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import { AxiosResponseHeaders, RawAxiosResponseHeaders } from 'axios';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { RateLimitError } from '../utils/error-handler';
+import { RateLimitInfo } from '../types/spline';
+
+export interface RateLimitStatus {
+  known: boolean;
+  limit?: number;
+  remaining?: number;
+  reset?: Date;
+  throttling: boolean;
+  waitingRequests: number;
+}
+
+type ResponseHeaders = RawAxiosResponseHeaders | AxiosResponseHeaders;
+
+// Reset values above this are absolute epoch seconds rather than seconds from now
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Tracks the Spline API's advertised request budget from response headers and
+ * delays outgoing requests once the remaining budget falls to the configured reserve.
+ */
+export class UpstreamRateLimiter {
+  private info: RateLimitInfo | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private waiting = 0;
+  private throttling = false;
+  /** 429s in a row that did not say when to retry, which back off exponentially */
+  private unexplainedRejections = 0;
+
+  getInfo(): RateLimitInfo | null {
+    return this.info ? { ...this.info } : null;
+  }
+
+  getStatus(): RateLimitStatus {
+    return {
+      known: this.info !== null,
+      limit: this.info?.limit,
+      remaining: this.info?.remaining,
+      reset: this.info?.reset,
+      throttling: this.throttling,
+      waitingRequests: this.waiting,
+    };
+  }
+
+  /**
+   * Updates the budget from `X-RateLimit-*` or IETF `RateLimit-*` headers.
+   * A 429 marks the budget as exhausted until its `Retry-After`, or without one for a backoff
+   * that doubles with each such 429 in a row, from the retry base delay up to the longest wait.
+   */
+  update(headers: ResponseHeaders | undefined, status?: number, retryAfterMs?: number | null) {
+    if (status === 429) {
+      let waitMs = retryAfterMs;
+      if (waitMs === undefined || waitMs === null) {
+        this.unexplainedRejections++;
+        waitMs = Math.min(
+          config.spline.rateLimit.maxWaitMs,
+          config.spline.retry.baseDelayMs * 2 ** (this.unexplainedRejections - 1)
+        );
+      }
+      this.info = {
+        limit: this.info?.limit ?? 0,
+        remaining: 0,
+        reset: new Date(Date.now() + waitMs),
+      };
+      return;
+    }
+
+    if (status !== undefined) {
+      this.unexplainedRejections = 0;
+    }
+
+    if (!headers) {
+      return;
+    }
+
+    const limit = this.readNumber(headers, 'x-ratelimit-limit', 'ratelimit-limit');
+    const remaining = this.readNumber(headers, 'x-ratelimit-remaining', 'ratelimit-remaining');
+    const reset = this.readNumber(headers, 'x-ratelimit-reset', 'ratelimit-reset');
+
+    if (remaining === undefined || reset === undefined) {
+      return;
+    }
+
+    this.info = {
+      limit: limit ?? this.info?.limit ?? remaining,
+      remaining,
+      reset: new Date(reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : Date.now() + reset * 1000),
+    };
+  }
+
+  /**
+   * Resolves when the request may be sent. Requests are released in order; while the budget
+   * is at the reserve they wait for the window to reset, or fail if that is too far away.
+   */
+  acquire(): Promise<void> {
+    this.waiting++;
+    const turn = this.queue.then(() => this.waitForBudget()).finally(() => {
+      this.waiting--;
+    });
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForBudget() {
+    if (!this.info) {
+      return;
+    }
+
+    const waitMs = this.info.reset.getTime() - Date.now();
+    if (waitMs <= 0) {
+      // Window has rolled over, the next response tells us the new budget
+      this.info = null;
+      return;
+    }
+
+    if (this.info.remaining > config.spline.rateLimit.reserve) {
+      // Count requests in flight so concurrent callers don't all spend the same budget
+      this.info.remaining--;
+      return;
+    }
+
+    if (waitMs > config.spline.rateLimit.maxWaitMs) {
+      throw new RateLimitError(`Spline API rate limit exhausted until ${this.info.reset.toISOString()}`);
+    }
+
+    Logger.warn('Throttling Spline API requests until rate limit resets', {
+      remaining: this.info.remaining,
+      reset: this.info.reset,
+      waitMs,
+      waitingRequests: this.waiting,
+    });
+
+    this.throttling = true;
+    try {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    } finally {
+      this.throttling = false;
+    }
+    this.info = null;
+  }
+
+  private readNumber(headers: ResponseHeaders, ...names: string[]): number | undefined {
+    for (const name of names) {
+      const raw = (headers as Record<string, unknown>)[name];
+      if (raw !== undefined && raw !== null && raw !== '' && !Number.isNaN(Number(raw))) {
+        return Number(raw);
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { Transform } from 'stream';
+import { AxiosError } from 'axios';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { Validator } from '../utils/validation';
+import { NotFoundError, SplineApiError, SplineError, ValidationError } from '../utils/error-handler';
+import { SplineExportOptions } from '../types/spline';
+import { SplineApiClient } from '../api/spline-api-client';
+
+export interface ArtifactManifest {
+  /** Same as the export job ID, so a job is stored at most once */
+  id: string;
+  jobId: string;
+  sceneId: string;
+  format?: SplineExportOptions['format'];
+  options?: Partial<SplineExportOptions>;
+  fileName: string;
+  sizeBytes: number;
+  sha256: string;
+  exportCreatedAt?: string;
+  exportCompletedAt?: string;
+  storedAt: string;
+  /** When the retention policy removes the artifact, if it has one */
+  expiresAt?: string;
+}
+
+export interface StoreArtifactInput {
+  jobId: string;
+  sceneId: string;
+  downloadUrl: string;
+  format?: SplineExportOptions['format'];
+  options?: Partial<SplineExportOptions>;
+  exportCreatedAt?: Date | string;
+  exportCompletedAt?: Date | string;
+}
+
+export interface ArtifactStoreOptions {
+  dir: string;
+  maxFileSizeBytes: number;
+  maxTotalSizeBytes: number;
+  /** Largest file `read` returns */
+  maxInlineSizeBytes: number;
+  retentionMs: number;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  gltf: '.glb',
+  obj: '.obj',
+  fbx: '.fbx',
+  image: '.png',
+  video: '.mp4',
+};
+
+/**
+ * Keeps downloaded export files on local disk so they outlive Spline's short-lived download URLs.
+ * Each artifact lives in `<dir>/<id>/` next to a JSON manifest with its checksum and export details.
+ */
+export class ArtifactStore {
+  private inFlight = new Map<string, Promise<ArtifactManifest>>();
+
+  constructor(private options: ArtifactStoreOptions = config.artifacts) {}
+
+  store(input: StoreArtifactInput): Promise<ArtifactManifest> {
+    // Concurrent requests for the same job share one download
+    let pending = this.inFlight.get(input.jobId);
+    if (!pending) {
+      pending = this.download(input).finally(() => this.inFlight.delete(input.jobId));
+      this.inFlight.set(input.jobId, pending);
+    }
+    return pending;
+  }
+
+  async list(sceneId?: string): Promise<ArtifactManifest[]> {
+    await this.enforceRetention();
+
+    const manifests = await this.readAllManifests();
+    return manifests
+      .filter(manifest => !sceneId || manifest.sceneId === sceneId)
+      .sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+  }
+
+  async get(id: string): Promise<ArtifactManifest> {
+    const manifest = await this.readManifest(this.artifactDir(id));
+    if (!manifest) {
+      throw new NotFoundError(`Artifact ${id}`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Absolute path of the stored file.
+   */
+  async getFilePath(id: string): Promise<string> {
+    const manifest = await this.get(id);
+    return path.resolve(this.artifactDir(id), manifest.fileName);
+  }
+
+  /**
+   * Contents of the stored file, for returning it to clients that cannot reach the server's disk.
+   */
+  async read(id: string): Promise<Buffer> {
+    const manifest = await this.get(id);
+    if (manifest.sizeBytes > this.options.maxInlineSizeBytes) {
+      throw new SplineError(
+        `Artifact ${id} is ${Math.ceil(manifest.sizeBytes / 1024)}KB, larger than the ${Math.floor(this.options.maxInlineSizeBytes / 1024)}KB that can be returned inline`,
+        413,
+        'ARTIFACT_TOO_LARGE'
+      );
+    }
+    return fs.promises.readFile(path.join(this.artifactDir(id), manifest.fileName));
+  }
+
+  /**
+   * Recomputes the checksum of the stored file and compares it with the manifest.
+   */
+  async verify(id: string): Promise<boolean> {
+    const manifest = await this.get(id);
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(path.join(this.artifactDir(id), manifest.fileName)), hash);
+    return hash.digest('hex') === manifest.sha256;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+    await fs.promises.rm(this.artifactDir(id), { recursive: true, force: true });
+    Logger.info('Artifact deleted', { artifactId: id });
+  }
+
+  /**
+   * Removes artifacts past their retention period, then the oldest ones until the store fits its size cap.
+   * The newest artifact is kept whatever its size, so the one just stored is never removed.
+   */
+  async enforceRetention(): Promise<void> {
+    const manifests = (await this.readAllManifests()).sort((a, b) => a.storedAt.localeCompare(b.storedAt));
+    const now = Date.now();
+    let totalBytes = manifests.reduce((sum, manifest) => sum + manifest.sizeBytes, 0);
+
+    const newest = manifests[manifests.length - 1];
+
+    for (const manifest of manifests) {
+      const expired = manifest.expiresAt !== undefined && Date.parse(manifest.expiresAt) <= now;
+      if (!expired && (totalBytes <= this.options.maxTotalSizeBytes || manifest === newest)) {
+        continue;
+      }
+
+      await fs.promises.rm(this.artifactDir(manifest.id), { recursive: true, force: true });
+      totalBytes -= manifest.sizeBytes;
+      Logger.info('Artifact removed by retention policy', { artifactId: manifest.id, expired });
+    }
+  }
+
+  private async download(input: StoreArtifactInput): Promise<ArtifactManifest> {
+    const directory = this.artifactDir(input.jobId);
+    const existing = await this.readManifest(directory);
+    if (existing) {
+      return existing;
+    }
+
+    const fileName = this.buildFileName(input);
+    const tempPath = path.join(this.options.dir, `.${input.jobId}.partial`);
+    await fs.promises.mkdir(this.options.dir, { recursive: true });
+
+    let response;
+    try {
+      response = await SplineApiClient.shared().download(input.downloadUrl, {
+        responseType: 'stream',
+        timeout: config.spline.exportTimeout,
+        maxContentLength: this.options.maxFileSizeBytes,
+      });
+    } catch (error) {
+      // e.g. a download missing from the cassette being replayed
+      if (error instanceof SplineError) {
+        throw error;
+      }
+      const status = (error as AxiosError).response?.status;
+      throw new SplineApiError(`Could not download export ${input.jobId}: ${(error as Error).message}`, status ?? 502, {
+        upstreamStatus: status,
+        retryable: status === undefined || status >= 500,
+        cause: error,
+      });
+    }
+
+    const declaredSize = Number(response.headers['content-length']);
+    if (declaredSize > this.options.maxFileSizeBytes) {
+      response.data.destroy();
+      throw this.tooLargeError(declaredSize);
+    }
+
+    // Hash and count while streaming so large exports never sit in memory
+    const hash = crypto.createHash('sha256');
+    let sizeBytes = 0;
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        sizeBytes += chunk.length;
+        if (sizeBytes > this.options.maxFileSizeBytes) {
+          callback(this.tooLargeError(sizeBytes));
+          return;
+        }
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(response.data, meter, fs.createWriteStream(tempPath));
+
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.rename(tempPath, path.join(directory, fileName));
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    const storedAt = new Date();
+    const manifest: ArtifactManifest = {
+      id: input.jobId,
+      jobId: input.jobId,
+      sceneId: input.sceneId,
+      format: input.format,
+      options: input.options,
+      fileName,
+      sizeBytes,
+      sha256: hash.digest('hex'),
+      exportCreatedAt: input.exportCreatedAt ? new Date(input.exportCreatedAt).toISOString() : undefined,
+      exportCompletedAt: input.exportCompletedAt ? new Date(input.exportCompletedAt).toISOString() : undefined,
+      storedAt: storedAt.toISOString(),
+      expiresAt: this.options.retentionMs > 0
+        ? new Date(storedAt.getTime() + this.options.retentionMs).toISOString()
+        : undefined,
+    };
+    await fs.promises.writeFile(path.join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    Logger.info('Artifact stored', { artifactId: manifest.id, sceneId: manifest.sceneId, sizeBytes, fileName });
+
+    await this.enforceRetention();
+    return manifest;
+  }
+
+  private buildFileName(input: StoreArtifactInput): string {
+    const urlExtension = path.extname(new URL(input.downloadUrl).pathname);
+    const extension = urlExtension || (input.format ? FORMAT_EXTENSIONS[input.format] : '') || '';
+    return Validator.sanitizeFileName(`${input.sceneId}-${input.jobId}${extension}`);
+  }
+
+  private artifactDir(id: string): string {
+    // IDs are job UUIDs; anything else could escape the store directory
+    if (!Validator.isValidUUID(id)) {
+      throw new ValidationError('Invalid artifact ID format');
+    }
+    return path.join(this.options.dir, id);
+  }
+
+  private async readManifest(directory: string): Promise<ArtifactManifest | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(directory, MANIFEST_FILE), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async readAllManifests(): Promise<ArtifactManifest[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.options.dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const manifests: ArtifactManifest[] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory() && Validator.isValidUUID(entry.name)) {
+        const manifest = await this.readManifest(path.join(this.options.dir, entry.name));
+        if (manifest) {
+          manifests.push(manifest);
+        }
+      }
+    }
+    return manifests;
+  }
+
+  private tooLargeError(sizeBytes: number): SplineError {
+    return new SplineError(
+      `Export is ${Math.ceil(sizeBytes / 1024 / 1024)}MB, larger than the ${Math.round(this.options.maxFileSizeBytes / 1024 / 1024)}MB artifact limit`,
+      413,
+      'ARTIFACT_TOO_LARGE'
+    );
+  }
+}
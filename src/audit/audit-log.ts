@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createClient } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+
+export type AuditBackendType = 'file' | 'redis' | 'off';
+
+export interface AuditEntry {
+  id: string;
+  /** ISO 8601 time the call finished */
+  timestamp: string;
+  tool: string;
+  kind: 'mutating' | 'destructive';
+  clientId: string;
+  clientName: string;
+  sessionId?: string;
+  requestId: string;
+  sceneId?: string;
+  objectId?: string;
+  arguments: Record<string, unknown>;
+  /** State read before the call; null when nothing existed yet, capture is off or it could not be read */
+  before: unknown;
+  /** State after the call; null when it deleted something or failed */
+  after: unknown;
+  outcome: 'succeeded' | 'failed';
+  error?: { code: string; message: string };
+}
+
+export interface AuditQuery {
+  sceneId?: string;
+  objectId?: string;
+  clientId?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/** The Redis commands the stream backend uses */
+export interface AuditStreamClient {
+  readonly isOpen: boolean;
+  connect(): Promise<unknown>;
+  quit(): Promise<unknown>;
+  xAdd(key: string, id: string, message: Record<string, string>): Promise<unknown>;
+  xRevRange(key: string, end: string, start: string, options?: { COUNT?: number }): Promise<Array<{ id: string; message: Record<string, string> }>>;
+}
+
+export interface AuditLogOptions {
+  backend: AuditBackendType;
+  path: string;
+  redisStream: string;
+  captureState: boolean;
+  /** Client for the redis backend; one connected to REDIS_URL is created when unset */
+  redisClient?: AuditStreamClient;
+}
+
+interface AuditBackend {
+  append(entry: AuditEntry): Promise<void>;
+  /** Newest entries first */
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+  close(): Promise<void>;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (!query.sceneId || entry.sceneId === query.sceneId)
+    && (!query.objectId || entry.objectId === query.objectId)
+    && (!query.clientId || entry.clientId === query.clientId)
+    && (!query.tool || entry.tool === query.tool)
+    && (!query.since || time >= query.since.getTime())
+    && (!query.until || time <= query.until.getTime());
+}
+
+/**
+ * One JSON object per line, only ever appended to. Queries scan the whole file.
+ */
+class JsonlAuditBackend implements AuditBackend {
+  // Appends are chained so concurrent calls never interleave their lines
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', { flag: 'a' });
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.writes;
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const found: AuditEntry[] = [];
+    const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry: AuditEntry = JSON.parse(line);
+        if (matches(entry, query)) {
+          found.push(entry);
+          // Only the newest `limit` matches are kept
+          if (found.length > query.limit) {
+            found.shift();
+          }
+        }
+      } catch {
+        Logger.warn('Skipping unreadable audit log line', { file: this.filePath });
+      }
+    }
+    return found.reverse();
+  }
+
+  async close() {
+    await this.writes;
+  }
+}
+
+/**
+ * Entries in a Redis stream, whose IDs start with the time they were added so time ranges
+ * are read straight from the stream. Other filters are applied while paging backwards.
+ */
+class RedisStreamAuditBackend implements AuditBackend {
+  private static readonly PAGE_SIZE = 500;
+  private connected: Promise<unknown>;
+
+  constructor(private stream: string, private client: AuditStreamClient = RedisStreamAuditBackend.createClient()) {
+    this.connected = this.client.connect();
+    this.connected.catch((err: Error) => {
+      Logger.error('Failed to connect to Redis for the audit log', err);
+    });
+  }
+
+  private static createClient(): AuditStreamClient {
+    const client = createClient({ url: config.redis.url, password: config.redis.password });
+    client.on('error', (err: Error) => {
+      Logger.error('Audit log Redis connection error', err);
+    });
+    return client;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.connected;
+    await this.client.xAdd(this.stream, '*', { entry: JSON.stringify(entry) });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.connected;
+
+    const found: AuditEntry[] = [];
+    const start = query.since ? String(query.since.getTime()) : '-';
+    let end = query.until ? String(query.until.getTime()) : '+';
+
+    while (found.length < query.limit) {
+      const page = await this.client.xRevRange(this.stream, end, start, { COUNT: RedisStreamAuditBackend.PAGE_SIZE });
+      for (const message of page) {
+        const entry: AuditEntry = JSON.parse(message.message.entry);
+        if (matches(entry, query) && found.length < query.limit) {
+          found.push(entry);
+        }
+      }
+      if (page.length < RedisStreamAuditBackend.PAGE_SIZE) {
+        break;
+      }
+      // Exclusive end, so the last message of this page is not read again
+      end = `(${page[page.length - 1].id}`;
+    }
+    return found;
+  }
+
+  async close() {
+    await this.connected.catch(() => undefined);
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+}
+
+/**
+ * Append-only record of every call to a tool that changes state: who made it, what it targeted,
+ * its arguments, and the state before and after. Kept apart from the application logs.
+ */
+export class AuditLog {
+  private backend?: AuditBackend;
+
+  constructor(private options: AuditLogOptions = config.audit) {
+    if (options.backend === 'file') {
+      this.backend = new JsonlAuditBackend(options.path);
+    } else if (options.backend === 'redis') {
+      this.backend = new RedisStreamAuditBackend(options.redisStream, options.redisClient);
+    }
+  }
+
+  get enabled(): boolean {
+    return this.backend !== undefined;
+  }
+
+  /** Whether prior state is read before each call, at the cost of extra API reads */
+  get capturesState(): boolean {
+    return this.enabled && this.options.captureState;
+  }
+
+  async append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const complete: AuditEntry = { id: uuidv4(), timestamp: new Date().toISOString(), ...entry };
+    await this.backend?.append(complete);
+    return complete;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.backend ? this.backend.query(query) : [];
+  }
+
+  async close() {
+    await this.backend?.close();
+  }
+}
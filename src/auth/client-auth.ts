@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import { NextFunction, Request, Response } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { AuthenticationError, AuthorizationError, ErrorHandler, ValidationError } from '../utils/error-handler';
+import type { ToolKind } from '../tools/registry';
+
+export interface RegisteredClient {
+  id: string;
+  name: string;
+  secretHash: string;
+  scopes: string[];
+  disabled?: boolean;
+}
+
+export interface ClientIdentity {
+  clientId: string;
+  clientName: string;
+  scopes: string[];
+}
+
+export interface IssuedToken {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+const TOKEN_ISSUER = 'spline-mcp-server';
+
+/**
+ * Scope a client needs to call tools of each kind. A registry entry without `scopes` gets all of them.
+ */
+export const TOOL_KIND_SCOPES: Record<ToolKind, string> = {
+  'read-only': 'read',
+  mutating: 'write',
+  destructive: 'delete',
+};
+
+const ALL_SCOPES = Object.values(TOOL_KIND_SCOPES);
+
+// Compared against when the client ID is unknown so lookups take the same time either way
+const DUMMY_SECRET_HASH = bcrypt.hashSync('spline-mcp-server-dummy-secret', 4);
+
+/**
+ * Identity used for tool calls that did not come through an authenticated transport (stdio).
+ */
+export const LOCAL_CLIENT: ClientIdentity = {
+  clientId: 'local',
+  clientName: 'Local stdio client',
+  scopes: ALL_SCOPES,
+};
+
+export class ClientAuthService {
+  private clients = new Map<string, RegisteredClient>();
+
+  constructor(private clientsFile: string = config.auth.clientsFile) {
+    this.loadClients();
+  }
+
+  static identityFromAuthInfo(authInfo?: AuthInfo): ClientIdentity {
+    if (!authInfo) {
+      return LOCAL_CLIENT;
+    }
+
+    return {
+      clientId: authInfo.clientId,
+      clientName: (authInfo.extra?.clientName as string) ?? authInfo.clientId,
+      scopes: authInfo.scopes,
+    };
+  }
+
+  /**
+   * Throws unless the client holds the scope for the tool's kind.
+   */
+  static authorize(client: ClientIdentity, toolName: string, kind: ToolKind) {
+    const scope = TOOL_KIND_SCOPES[kind];
+    if (!client.scopes.includes(scope)) {
+      throw new AuthorizationError(`${toolName} needs the ${scope} scope, which client ${client.clientId} does not have`);
+    }
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  private loadClients() {
+    const filePath = path.resolve(this.clientsFile);
+
+    if (!fs.existsSync(filePath)) {
+      Logger.warn('Client registry file not found, no clients can authenticate', { clientsFile: filePath });
+      return;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const clients: RegisteredClient[] = Array.isArray(parsed) ? parsed : parsed.clients ?? [];
+
+    for (const client of clients) {
+      if (!client.id || !client.secretHash) {
+        throw new ValidationError(`Invalid client entry in ${filePath}: id and secretHash are required`);
+      }
+      const unknownScopes = (client.scopes ?? []).filter(scope => !ALL_SCOPES.includes(scope));
+      if (unknownScopes.length > 0) {
+        throw new ValidationError(`Invalid client entry ${client.id} in ${filePath}: unknown scopes ${unknownScopes.join(', ')}, expected ${ALL_SCOPES.join(', ')}`);
+      }
+
+      this.clients.set(client.id, {
+        ...client,
+        name: client.name ?? client.id,
+        scopes: client.scopes ?? ALL_SCOPES,
+      });
+    }
+
+    Logger.info('Client registry loaded', { clientsFile: filePath, clients: this.clients.size });
+  }
+
+  async issueToken(clientId: string, clientSecret: string): Promise<IssuedToken> {
+    if (!clientId || !clientSecret) {
+      throw new ValidationError('client_id and client_secret are required');
+    }
+
+    const client = this.clients.get(clientId);
+    const secretMatches = await bcrypt.compare(clientSecret, client?.secretHash ?? DUMMY_SECRET_HASH);
+
+    if (!client || client.disabled || !secretMatches) {
+      Logger.warn('Client authentication failed', { clientId });
+      throw new AuthenticationError('Invalid client credentials');
+    }
+
+    const accessToken = jwt.sign(
+      { name: client.name, scope: client.scopes.join(' ') },
+      config.auth.jwtSecret,
+      {
+        subject: client.id,
+        issuer: TOKEN_ISSUER,
+        expiresIn: config.auth.jwtExpiresIn as SignOptions['expiresIn'],
+      }
+    );
+    const { exp, iat } = jwt.decode(accessToken) as JwtPayload;
+
+    Logger.info('Access token issued', { clientId });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: exp! - iat!,
+      scope: client.scopes.join(' '),
+    };
+  }
+
+  verifyToken(token: string): AuthInfo {
+    const payload = jwt.verify(token, config.auth.jwtSecret, { issuer: TOKEN_ISSUER }) as JwtPayload;
+    const client = payload.sub ? this.clients.get(payload.sub) : undefined;
+
+    if (!client || client.disabled) {
+      throw new AuthenticationError('Client is no longer registered');
+    }
+
+    return {
+      token,
+      clientId: client.id,
+      scopes: client.scopes,
+      expiresAt: payload.exp,
+      extra: {
+        clientName: client.name,
+      },
+    };
+  }
+
+  /**
+   * Express handler for the OAuth-style client credentials token endpoint.
+   */
+  tokenHandler() {
+    return async (req: Request, res: Response) => {
+      const grantType = req.body?.grant_type ?? 'client_credentials';
+
+      try {
+        if (grantType !== 'client_credentials') {
+          throw new ValidationError(`Unsupported grant_type: ${grantType}`);
+        }
+
+        res.json(await this.issueToken(req.body?.client_id, req.body?.client_secret));
+      } catch (error) {
+        this.sendError(res, error as Error);
+      }
+    };
+  }
+
+  /**
+   * Express middleware verifying the bearer token and attaching it as `req.auth`,
+   * which the MCP transports forward to request handlers as `authInfo`.
+   */
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const header = req.headers.authorization;
+
+      try {
+        if (!header || !header.startsWith('Bearer ')) {
+          throw new AuthenticationError('Missing bearer token');
+        }
+
+        (req as Request & { auth?: AuthInfo }).auth = this.verifyToken(header.slice('Bearer '.length).trim());
+        next();
+      } catch (error) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="spline-mcp-server"');
+        this.sendError(res, error as Error);
+      }
+    };
+  }
+
+  private sendError(res: Response, error: Error) {
+    const errorInfo = ErrorHandler.handle(error);
+    res.status(errorInfo.statusCode).json({
+      success: false,
+      error: errorInfo.message,
+      code: errorInfo.code,
+      timestamp: new Date(),
+    });
+  }
+}
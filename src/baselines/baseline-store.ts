@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Jimp from 'jimp';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { Validator } from '../utils/validation';
+import { NotFoundError, ValidationError } from '../utils/error-handler';
+
+export interface BaselineImage {
+  width: number;
+  height: number;
+  fileName: string;
+  sha256: string;
+}
+
+export interface BaselineManifest {
+  sceneId: string;
+  name: string;
+  /** Scene version the baseline was captured from */
+  sceneVersion?: string;
+  capturedAt: string;
+  images: BaselineImage[];
+}
+
+export interface CapturedImage {
+  width: number;
+  height: number;
+  image: Jimp;
+}
+
+export interface BaselineStoreOptions {
+  dir: string;
+}
+
+export interface ComparisonFiles {
+  latestPath: string;
+  diffPath: string;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const BASELINE_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Keeps baseline previews of scenes on local disk for visual regression checks.
+ * Each baseline lives in `<dir>/<sceneId>/<name>/` with one PNG per captured size, a JSON manifest,
+ * and the latest preview and diff image of the most recent comparison.
+ */
+export class BaselineStore {
+  constructor(private options: BaselineStoreOptions = config.visualRegression) {}
+
+  /**
+   * Saves a baseline, replacing any previous baseline with the same name.
+   */
+  async save(sceneId: string, name: string, captures: CapturedImage[], sceneVersion?: string): Promise<BaselineManifest> {
+    const directory = this.baselineDir(sceneId, name);
+    await fs.promises.rm(directory, { recursive: true, force: true });
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const images: BaselineImage[] = [];
+    for (const capture of captures) {
+      const fileName = `${capture.width}x${capture.height}.png`;
+      const buffer = await capture.image.getBufferAsync(Jimp.MIME_PNG);
+      await fs.promises.writeFile(path.join(directory, fileName), buffer);
+
+      images.push({
+        width: capture.width,
+        height: capture.height,
+        fileName,
+        sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+      });
+    }
+
+    const manifest: BaselineManifest = {
+      sceneId,
+      name,
+      sceneVersion,
+      capturedAt: new Date().toISOString(),
+      images,
+    };
+    await fs.promises.writeFile(path.join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    Logger.info('Baseline captured', { sceneId, name, sizes: images.map(image => image.fileName) });
+    return manifest;
+  }
+
+  async get(sceneId: string, name: string): Promise<BaselineManifest> {
+    const manifest = await this.readManifest(this.baselineDir(sceneId, name));
+    if (!manifest) {
+      throw new NotFoundError(`Baseline ${name} of scene ${sceneId}`);
+    }
+    return manifest;
+  }
+
+  async list(sceneId?: string): Promise<BaselineManifest[]> {
+    const sceneIds = sceneId ? [sceneId] : await this.readDirectories(this.options.dir, Validator.isValidUUID);
+
+    const manifests: BaselineManifest[] = [];
+    for (const id of sceneIds) {
+      const sceneDir = this.sceneDir(id);
+      for (const name of await this.readDirectories(sceneDir, candidate => BASELINE_NAME_PATTERN.test(candidate))) {
+        const manifest = await this.readManifest(path.join(sceneDir, name));
+        if (manifest) {
+          manifests.push(manifest);
+        }
+      }
+    }
+    return manifests.sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+  }
+
+  async readImage(sceneId: string, name: string, image: BaselineImage): Promise<Jimp> {
+    return Jimp.read(path.join(this.baselineDir(sceneId, name), image.fileName));
+  }
+
+  /**
+   * Writes the fresh preview and diff image of a comparison next to the baseline, replacing the previous ones.
+   */
+  async saveComparison(sceneId: string, name: string, image: BaselineImage, latest: Jimp, diff: Jimp): Promise<ComparisonFiles> {
+    const directory = this.baselineDir(sceneId, name);
+    const baseName = path.basename(image.fileName, '.png');
+    const files = {
+      latestPath: path.resolve(directory, `${baseName}.latest.png`),
+      diffPath: path.resolve(directory, `${baseName}.diff.png`),
+    };
+
+    await latest.writeAsync(files.latestPath);
+    await diff.writeAsync(files.diffPath);
+    return files;
+  }
+
+  async delete(sceneId: string, name: string): Promise<void> {
+    await this.get(sceneId, name);
+    await fs.promises.rm(this.baselineDir(sceneId, name), { recursive: true, force: true });
+    Logger.info('Baseline deleted', { sceneId, name });
+  }
+
+  /**
+   * Absolute path of the directory holding a baseline.
+   */
+  getPath(sceneId: string, name: string): string {
+    return path.resolve(this.baselineDir(sceneId, name));
+  }
+
+  private sceneDir(sceneId: string): string {
+    if (!Validator.isValidUUID(sceneId)) {
+      throw new ValidationError('Invalid scene ID format');
+    }
+    return path.join(this.options.dir, sceneId);
+  }
+
+  private baselineDir(sceneId: string, name: string): string {
+    // Names become directory names, so nothing that could escape the store is allowed
+    if (!BASELINE_NAME_PATTERN.test(name)) {
+      throw new ValidationError('Baseline names may only contain letters, digits, dashes and underscores');
+    }
+    return path.join(this.sceneDir(sceneId), name);
+  }
+
+  private async readManifest(directory: string): Promise<BaselineManifest | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(directory, MANIFEST_FILE), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async readDirectories(directory: string, accept: (name: string) => boolean): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory() && accept(entry.name)).map(entry => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -3,28 +3,103 @@ import Joi from 'joi';
 
 dotenv.config();
 
+// `--transport http` / `--transport=http` on the command line overrides MCP_TRANSPORT
+const transportArgIndex = process.argv.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+const cliTransport = transportArgIndex === -1
+  ? undefined
+  : process.argv[transportArgIndex].includes('=')
+    ? process.argv[transportArgIndex].split('=')[1]
+    : process.argv[transportArgIndex + 1];
+
 const configSchema = Joi.object({
   NODE_ENV: Joi.string().valid('development', 'production', 'test').default('development'),
   PORT: Joi.number().default(3000),
   LOG_LEVEL: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
   
+  // MCP Transport
+  MCP_TRANSPORT: Joi.string().valid('stdio', 'http').default('stdio'),
+  HOST: Joi.string().default('0.0.0.0'),
+  MCP_MAX_SESSIONS: Joi.number().integer().min(1).default(100),
+  MCP_SESSION_IDLE_TIMEOUT_MS: Joi.number().integer().min(1000).default(1800000), // 30 minutes
+  
   // Spline API Configuration
   SPLINE_API_BASE_URL: Joi.string().uri().default('https://api.spline.design'),
-  SPLINE_API_KEY: Joi.string().required(),
+  // Not needed when replaying a cassette, since nothing is sent to Spline
+  SPLINE_API_KEY: Joi.string().when('SPLINE_CASSETTE_MODE', {
+    is: 'replay',
+    then: Joi.optional().default('cassette-replay'),
+    otherwise: Joi.required(),
+  }),
   SPLINE_API_VERSION: Joi.string().default('v1'),
   SPLINE_TIMEOUT: Joi.number().default(30000),
+  SPLINE_EXPORT_TIMEOUT: Joi.number().default(120000),
+  SPLINE_EXPORT_POLL_INTERVAL_MS: Joi.number().min(100).default(1000),
+  SPLINE_EXPORT_POLL_MAX_INTERVAL_MS: Joi.number().min(100).default(10000),
+  SPLINE_EXPORT_WAIT_TIMEOUT_MS: Joi.number().min(1000).default(600000),
+  SPLINE_MAX_RETRIES: Joi.number().integer().min(0).default(3),
+  SPLINE_RETRY_BASE_DELAY_MS: Joi.number().integer().min(0).default(500),
+  SPLINE_RETRY_MAX_DELAY_MS: Joi.number().integer().min(0).default(30000),
+  SPLINE_RETRY_NON_IDEMPOTENT: Joi.boolean().default(false),
+  SPLINE_RATE_LIMIT_RESERVE: Joi.number().integer().min(0).default(1),
+  SPLINE_RATE_LIMIT_MAX_WAIT_MS: Joi.number().integer().min(0).default(60000),
+  SPLINE_CIRCUIT_FAILURE_THRESHOLD: Joi.number().integer().min(1).default(5),
+  SPLINE_CIRCUIT_RESET_TIMEOUT_MS: Joi.number().integer().min(0).default(30000),
+  SPLINE_CIRCUIT_HALF_OPEN_MAX_CALLS: Joi.number().integer().min(1).default(1),
+  SPLINE_CASSETTE_MODE: Joi.string().valid('off', 'record', 'replay').default('off'),
+  SPLINE_CASSETTE_PATH: Joi.string().default('cassettes/spline-api.json'),
+  SPLINE_CASSETTE_ALLOW_REPEATS: Joi.boolean().default(false),
   
   // Authentication
   JWT_SECRET: Joi.string().min(32).required(),
   JWT_EXPIRES_IN: Joi.string().default('24h'),
   BCRYPT_ROUNDS: Joi.number().default(12),
+  AUTH_ENABLED: Joi.boolean().default(true), // HTTP transport only; stdio is always trusted
+  AUTH_CLIENTS_FILE: Joi.string().default('config/clients.json'),
+  AUTH_TOKEN_RATE_LIMIT_WINDOW_MS: Joi.number().integer().min(1000).default(900000), // 15 minutes
+  AUTH_TOKEN_RATE_LIMIT_MAX: Joi.number().integer().min(1).default(20), // token requests per IP and window
+  
+  // Tools
+  TOOL_PLUGINS_DIR: Joi.string().allow('').optional(),
+  DRY_RUN: Joi.boolean().default(false), // preview every mutating call instead of applying it
+  
+  // Resources
+  SCENE_WATCH_INTERVAL_MS: Joi.number().min(1000).default(15000),
+  SCENE_WATCH_MAX_SCENES: Joi.number().min(1).default(20),
+  
+  // Export artifact store
+  ARTIFACTS_DIR: Joi.string().default('artifacts'),
+  ARTIFACT_MAX_FILE_SIZE_MB: Joi.number().min(1).default(500),
+  ARTIFACT_MAX_TOTAL_SIZE_MB: Joi.number().min(1).default(5000),
+  ARTIFACT_MAX_INLINE_SIZE_MB: Joi.number().min(0).default(10), // largest file spline_get_artifact returns as content
+  ARTIFACT_RETENTION_DAYS: Joi.number().min(0).default(30), // 0 keeps artifacts forever
+  
+  // Visual regression baselines
+  BASELINES_DIR: Joi.string().default('baselines'),
+  VISUAL_DIFF_PIXEL_THRESHOLD: Joi.number().min(0).max(1).default(0.1), // per-pixel colour distance tolerated
+  VISUAL_DIFF_MAX_MISMATCH_PERCENT: Joi.number().min(0).max(100).default(0.5),
+  
+  // Audit log of calls that change state
+  AUDIT_LOG_BACKEND: Joi.string().valid('file', 'redis', 'off').default('file'),
+  AUDIT_LOG_PATH: Joi.string().default('audit/audit-log.jsonl'),
+  AUDIT_LOG_REDIS_STREAM: Joi.string().default('spline-mcp:audit'),
+  AUDIT_CAPTURE_STATE: Joi.boolean().default(true), // read the prior state before each call
   
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: Joi.number().default(900000), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: Joi.number().default(100),
+  TOOL_RATE_LIMIT_DEFAULT: Joi.number().integer().min(1).default(100),
+  TOOL_RATE_LIMIT_WINDOW_MS: Joi.number().integer().min(1000).default(60000), // 1 minute
+  // Comma-separated `tool=limit` or `tool=limit/windowMs` overrides
+  TOOL_RATE_LIMITS: Joi.string()
+    .pattern(/^\s*[\w-]+=\d+(\/\d+)?\s*(,\s*[\w-]+=\d+(\/\d+)?\s*)*$/)
+    .default('spline_delete_scene=10,spline_export_scene=20,spline_export_and_wait=20,spline_render_views=10'),
   
   // Redis Configuration
-  REDIS_URL: Joi.string().uri().optional(),
+  REDIS_URL: Joi.string().uri().when('AUDIT_LOG_BACKEND', {
+    is: 'redis',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
   REDIS_PASSWORD: Joi.string().optional(),
   
   // Monitoring
@@ -37,33 +112,107 @@ const configSchema = Joi.object({
   TRUST_PROXY: Joi.boolean().default(false),
 }).unknown();
 
-const { error, value: envVars } = configSchema.validate(process.env);
+const { error, value: envVars } = configSchema.validate({
+  ...process.env,
+  ...(cliTransport !== undefined && { MCP_TRANSPORT: cliTransport }),
+});
 
 if (error) {
   throw new Error(`Config validation error: ${error.message}`);
 }
 
+interface ToolRateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+function parseToolRateLimits(value: string, defaultWindowMs: number): Record<string, ToolRateLimit> {
+  const limits: Record<string, ToolRateLimit> = {};
+
+  for (const entry of value.split(',')) {
+    const [toolName, spec] = entry.trim().split('=');
+    const [limit, windowMs] = spec.split('/').map(Number);
+    limits[toolName] = { limit, windowMs: windowMs || defaultWindowMs };
+  }
+
+  return limits;
+}
+
 export const config = {
   env: envVars.NODE_ENV,
   port: envVars.PORT,
   logLevel: envVars.LOG_LEVEL,
   
+  mcp: {
+    transport: envVars.MCP_TRANSPORT as 'stdio' | 'http',
+    host: envVars.HOST,
+    maxSessions: envVars.MCP_MAX_SESSIONS,
+    sessionIdleTimeoutMs: envVars.MCP_SESSION_IDLE_TIMEOUT_MS,
+  },
+  
   spline: {
     apiBaseUrl: envVars.SPLINE_API_BASE_URL,
     apiKey: envVars.SPLINE_API_KEY,
     apiVersion: envVars.SPLINE_API_VERSION,
     timeout: envVars.SPLINE_TIMEOUT,
+    exportTimeout: envVars.SPLINE_EXPORT_TIMEOUT,
+    exportWait: {
+      pollIntervalMs: envVars.SPLINE_EXPORT_POLL_INTERVAL_MS,
+      maxPollIntervalMs: envVars.SPLINE_EXPORT_POLL_MAX_INTERVAL_MS,
+      timeoutMs: envVars.SPLINE_EXPORT_WAIT_TIMEOUT_MS,
+    },
+    retry: {
+      maxRetries: envVars.SPLINE_MAX_RETRIES,
+      baseDelayMs: envVars.SPLINE_RETRY_BASE_DELAY_MS,
+      maxDelayMs: envVars.SPLINE_RETRY_MAX_DELAY_MS,
+      retryNonIdempotent: envVars.SPLINE_RETRY_NON_IDEMPOTENT,
+    },
+    rateLimit: {
+      reserve: envVars.SPLINE_RATE_LIMIT_RESERVE,
+      maxWaitMs: envVars.SPLINE_RATE_LIMIT_MAX_WAIT_MS,
+    },
+    circuitBreaker: {
+      failureThreshold: envVars.SPLINE_CIRCUIT_FAILURE_THRESHOLD,
+      resetTimeoutMs: envVars.SPLINE_CIRCUIT_RESET_TIMEOUT_MS,
+      halfOpenMaxCalls: envVars.SPLINE_CIRCUIT_HALF_OPEN_MAX_CALLS,
+    },
+    cassette: {
+      mode: envVars.SPLINE_CASSETTE_MODE as 'off' | 'record' | 'replay',
+      path: envVars.SPLINE_CASSETTE_PATH,
+      allowRepeats: envVars.SPLINE_CASSETTE_ALLOW_REPEATS,
+    },
   },
   
   auth: {
     jwtSecret: envVars.JWT_SECRET,
     jwtExpiresIn: envVars.JWT_EXPIRES_IN,
     bcryptRounds: envVars.BCRYPT_ROUNDS,
+    enabled: envVars.AUTH_ENABLED,
+    clientsFile: envVars.AUTH_CLIENTS_FILE,
+    tokenRateLimit: {
+      windowMs: envVars.AUTH_TOKEN_RATE_LIMIT_WINDOW_MS,
+      max: envVars.AUTH_TOKEN_RATE_LIMIT_MAX,
+    },
+  },
+  
+  tools: {
+    pluginsDir: (envVars.TOOL_PLUGINS_DIR || undefined) as string | undefined,
+    dryRun: envVars.DRY_RUN as boolean,
+  },
+  
+  resources: {
+    watchIntervalMs: envVars.SCENE_WATCH_INTERVAL_MS,
+    maxWatchedScenes: envVars.SCENE_WATCH_MAX_SCENES,
   },
   
   rateLimit: {
     windowMs: envVars.RATE_LIMIT_WINDOW_MS,
     maxRequests: envVars.RATE_LIMIT_MAX_REQUESTS,
+    toolDefault: {
+      limit: envVars.TOOL_RATE_LIMIT_DEFAULT,
+      windowMs: envVars.TOOL_RATE_LIMIT_WINDOW_MS,
+    } as ToolRateLimit,
+    tools: parseToolRateLimits(envVars.TOOL_RATE_LIMITS, envVars.TOOL_RATE_LIMIT_WINDOW_MS),
   },
   
   redis: {
@@ -71,6 +220,27 @@ export const config = {
     password: envVars.REDIS_PASSWORD,
   },
   
+  artifacts: {
+    dir: envVars.ARTIFACTS_DIR,
+    maxFileSizeBytes: envVars.ARTIFACT_MAX_FILE_SIZE_MB * 1024 * 1024,
+    maxTotalSizeBytes: envVars.ARTIFACT_MAX_TOTAL_SIZE_MB * 1024 * 1024,
+    maxInlineSizeBytes: envVars.ARTIFACT_MAX_INLINE_SIZE_MB * 1024 * 1024,
+    retentionMs: envVars.ARTIFACT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  },
+  
+  visualRegression: {
+    dir: envVars.BASELINES_DIR,
+    pixelThreshold: envVars.VISUAL_DIFF_PIXEL_THRESHOLD,
+    maxMismatchPercent: envVars.VISUAL_DIFF_MAX_MISMATCH_PERCENT,
+  },
+  
+  audit: {
+    backend: envVars.AUDIT_LOG_BACKEND as 'file' | 'redis' | 'off',
+    path: envVars.AUDIT_LOG_PATH,
+    redisStream: envVars.AUDIT_LOG_REDIS_STREAM,
+    captureState: envVars.AUDIT_CAPTURE_STATE,
+  },
+  
   monitoring: {
     enableMetrics: envVars.ENABLE_METRICS,
     healthCheckInterval: envVars.HEALTH_CHECK_INTERVAL,
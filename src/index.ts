@@ -30,6 +30,7 @@ async function main() {
       version: '1.0.0',
       environment: config.env,
       logLevel: config.logLevel,
+      transport: config.mcp.transport,
     });
 
     const server = new SplineMcpServer();
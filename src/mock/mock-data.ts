@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SplineAnimation, SplineExportOptions, SplineObject, SplineScene, SplineVariable } from '../types/spline';
+import type { ExportJob } from '../tools/export-tools';
+
+export interface MockScene {
+  scene: SplineScene;
+  description?: string;
+  objects: SplineObject[];
+  animations: SplineAnimation[];
+  /** Playback state per animation name */
+  playback: Record<string, 'playing' | 'paused' | 'stopped'>;
+  variables: SplineVariable[];
+}
+
+export interface MockExportJob extends ExportJob {
+  options: SplineExportOptions;
+  /** Simulated processing time; the job completes this long after creation */
+  durationMs: number;
+  cancelled?: boolean;
+  /** Set by fault injection, the job fails instead of completing */
+  willFail?: boolean;
+}
+
+/** Fixed ID of the seeded demo scene, so tests and demos can refer to it */
+export const MOCK_SCENE_ID = '6f1c3a52-8d4e-4b7a-9c21-0e5f7a9b3d10';
+export const MOCK_OWNER = 'mock-user';
+
+function vector(x: number, y: number, z: number) {
+  return { x, y, z };
+}
+
+export function createMockObject(data: Omit<SplineObject, 'id'> & { id?: string }): SplineObject {
+  return {
+    ...data,
+    id: data.id ?? uuidv4(),
+    properties: data.properties ?? {},
+  };
+}
+
+export function createMockScene(name: string, overrides: Partial<SplineScene> = {}): MockScene {
+  const now = new Date();
+  const id = overrides.id ?? uuidv4();
+
+  return {
+    scene: {
+      id,
+      name,
+      url: `https://my.spline.design/${id}`,
+      version: '1',
+      created: now,
+      modified: now,
+      owner: MOCK_OWNER,
+      permissions: { read: true, write: true, share: true, admin: true },
+      ...overrides,
+    },
+    objects: [
+      createMockObject({
+        name: 'Camera', type: 'camera', visible: true,
+        position: vector(0, 150, 1000), rotation: vector(-0.15, 0, 0), scale: vector(1, 1, 1),
+        properties: { fov: 45 },
+      }),
+      createMockObject({
+        name: 'Directional Light', type: 'light', visible: true,
+        position: vector(300, 600, 400), rotation: vector(0, 0, 0), scale: vector(1, 1, 1),
+        properties: { intensity: 1, color: '#ffffff' },
+      }),
+    ],
+    animations: [],
+    playback: {},
+    variables: [],
+  };
+}
+
+/**
+ * The demo scene served on a fresh mock: a product on a floor with a headline, two animations and a few variables.
+ */
+export function createSeedScenes(): MockScene[] {
+  const showcase = createMockScene('Product Showcase', { id: MOCK_SCENE_ID });
+
+  showcase.objects.push(
+    createMockObject({
+      name: 'Floor', type: 'mesh', visible: true,
+      position: vector(0, -120, 0), rotation: vector(-Math.PI / 2, 0, 0), scale: vector(6, 6, 1),
+      properties: { color: '#e5e7eb', geometry: 'plane' },
+    }),
+    createMockObject({
+      name: 'Product', type: 'mesh', visible: true,
+      position: vector(0, 0, 0), rotation: vector(0, 0.6, 0), scale: vector(1.5, 1.5, 1.5),
+      properties: { color: '#4f46e5', geometry: 'cube' },
+    }),
+    createMockObject({
+      name: 'Accent Sphere', type: 'mesh', visible: true,
+      position: vector(220, 60, -80), rotation: vector(0, 0, 0), scale: vector(0.6, 0.6, 0.6),
+      properties: { color: '#f59e0b', geometry: 'sphere' },
+    }),
+    createMockObject({
+      name: 'Headline', type: 'text', visible: true,
+      position: vector(0, 260, -100), rotation: vector(0, 0, 0), scale: vector(1, 1, 1),
+      properties: { text: 'Meet the product', color: '#111827' },
+    }),
+    createMockObject({
+      name: 'Hidden Backdrop', type: 'mesh', visible: false,
+      position: vector(0, 0, -600), rotation: vector(0, 0, 0), scale: vector(10, 6, 1),
+      properties: { color: '#1f2937', geometry: 'plane' },
+    })
+  );
+
+  showcase.animations.push(
+    { name: 'Spin', duration: 8000, loop: true, autoplay: true, easing: 'linear' },
+    { name: 'Float', duration: 3000, loop: true, autoplay: false, easing: 'ease-in-out' }
+  );
+  showcase.playback = { Spin: 'playing', Float: 'stopped' };
+
+  showcase.variables.push(
+    { name: 'headline', value: 'Meet the product', type: 'string' },
+    { name: 'brandColor', value: '#4f46e5', type: 'color' },
+    { name: 'isHovered', value: false, type: 'boolean' }
+  );
+
+  return [showcase];
+}
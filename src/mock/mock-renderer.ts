@@ -0,0 +1,137 @@
+import Jimp from 'jimp';
+import { SplineObject, Vector3 } from '../types/spline';
+import { MockScene } from './mock-data';
+
+const BACKGROUND = 0xf8fafcff;
+// Half the edge length of an object at scale 1, in scene units
+const OBJECT_HALF_SIZE = 50;
+const DRAWN_TYPES = new Set<SplineObject['type']>(['mesh', 'group', 'text', 'spline']);
+
+function rotateX(v: Vector3, angle: number): Vector3 {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: v.x, y: v.y * cos - v.z * sin, z: v.y * sin + v.z * cos };
+}
+
+function rotateY(v: Vector3, angle: number): Vector3 {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: v.x * cos + v.z * sin, y: v.y, z: -v.x * sin + v.z * cos };
+}
+
+function rotateZ(v: Vector3, angle: number): Vector3 {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: v.x * cos - v.y * sin, y: v.x * sin + v.y * cos, z: v.z };
+}
+
+/**
+ * Moves a world position into camera space. Cameras look down -Z with XYZ Euler rotations,
+ * so this applies the inverse rotation (Rx·Ry·Rz transposed) to the offset from the camera.
+ */
+function toCameraSpace(position: Vector3, camera: SplineObject): Vector3 {
+  const offset = {
+    x: position.x - camera.position.x,
+    y: position.y - camera.position.y,
+    z: position.z - camera.position.z,
+  };
+  return rotateZ(rotateY(rotateX(offset, -camera.rotation.x), -camera.rotation.y), -camera.rotation.z);
+}
+
+function colorOf(object: SplineObject): number {
+  const hex = typeof object.properties?.color === 'string' ? object.properties.color : undefined;
+  if (hex && /^#[0-9a-f]{6}$/i.test(hex)) {
+    return (parseInt(hex.slice(1), 16) * 256 + 255) >>> 0;
+  }
+
+  // Stable colour per object so objects without one are still told apart
+  let hash = 0;
+  for (const char of object.id) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return ((hash & 0xffffff00) | 0xff) >>> 0;
+}
+
+/**
+ * Draws a rough stand-in for a scene preview: every visible object as a flat shape, projected through
+ * the scene's first camera. Good enough for moving the camera or an object to visibly change the image.
+ */
+export async function renderPreview(mock: MockScene, width: number, height: number): Promise<Buffer> {
+  const image = new Jimp(width, height, BACKGROUND);
+  const camera = mock.objects.find(object => object.type === 'camera');
+
+  if (camera) {
+    const fov = ((Number(camera.properties?.fov) || 45) * Math.PI) / 180;
+    const focalLength = height / 2 / Math.tan(fov / 2);
+
+    const shapes = mock.objects
+      .filter(object => DRAWN_TYPES.has(object.type) && object.visible !== false)
+      .map(object => ({ object, point: toCameraSpace(object.position, camera) }))
+      .filter(({ point }) => point.z < -1)
+      // Painter's algorithm: far objects first
+      .sort((a, b) => a.point.z - b.point.z);
+
+    for (const { object, point } of shapes) {
+      const depth = -point.z;
+      const centerX = width / 2 + (point.x * focalLength) / depth;
+      const centerY = height / 2 - (point.y * focalLength) / depth;
+      // Planes seen edge-on, like a floor, shrink to a strip
+      const flat = object.properties?.geometry === 'plane';
+      const squashX = flat ? Math.max(Math.abs(Math.cos(object.rotation?.y ?? 0)), 0.05) : 1;
+      const squashY = flat ? Math.max(Math.abs(Math.cos(object.rotation?.x ?? 0)), 0.05) : 1;
+      const halfWidth = (OBJECT_HALF_SIZE * Math.abs(object.scale?.x ?? 1) * squashX * focalLength) / depth;
+      const halfHeight = object.type === 'text'
+        ? halfWidth / 5
+        : (OBJECT_HALF_SIZE * Math.abs(object.scale?.y ?? 1) * squashY * focalLength) / depth;
+      const round = object.properties?.geometry === 'sphere';
+      const color = colorOf(object);
+
+      const left = Math.max(0, Math.floor(centerX - halfWidth));
+      const top = Math.max(0, Math.floor(centerY - halfHeight));
+      const right = Math.min(width, Math.ceil(centerX + halfWidth));
+      const bottom = Math.min(height, Math.ceil(centerY + halfHeight));
+      if (right <= left || bottom <= top) {
+        continue;
+      }
+
+      image.scan(left, top, right - left, bottom - top, (x, y) => {
+        if (round && ((x - centerX) / halfWidth) ** 2 + ((y - centerY) / halfHeight) ** 2 > 1) {
+          return;
+        }
+        image.setPixelColor(color, x, y);
+      });
+    }
+  }
+
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+/**
+ * Contents of a mock export file. Images are real renders; 3D formats list the objects so the file
+ * reflects the scene, other formats are placeholders.
+ */
+export async function renderExport(mock: MockScene, format: string, width = 1280, height = 720): Promise<Buffer> {
+  const visible = mock.objects.filter(object => object.visible !== false);
+
+  switch (format) {
+    case 'image':
+      return renderPreview(mock, width, height);
+    case 'gltf':
+      return Buffer.from(JSON.stringify({
+        asset: { version: '2.0', generator: 'spline-mcp-server mock' },
+        scene: 0,
+        scenes: [{ name: mock.scene.name, nodes: visible.map((_, index) => index) }],
+        nodes: visible.map(object => ({
+          name: object.name,
+          translation: [object.position.x, object.position.y, object.position.z],
+          scale: [object.scale.x, object.scale.y, object.scale.z],
+        })),
+      }, null, 2));
+    case 'obj':
+      return Buffer.from(visible
+        .map(object => `o ${object.name}\nv ${object.position.x} ${object.position.y} ${object.position.z}`)
+        .join('\n') + '\n');
+    default:
+      return Buffer.from(`Mock ${format} export of ${mock.scene.name} (${mock.scene.id})\n`);
+  }
+}
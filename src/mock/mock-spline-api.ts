@@ -0,0 +1,617 @@
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import express, { Express, NextFunction, Request, Response, Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { SplineObject } from '../types/spline';
+import type { ExportJob } from '../tools/export-tools';
+import { createMockObject, createMockScene, createSeedScenes, MockExportJob, MockScene } from './mock-data';
+import { renderExport, renderPreview } from './mock-renderer';
+
+export interface MockFault {
+  /** HTTP status to answer with, or `timeout` to never answer */
+  status: number | 'timeout';
+  /** Chance from 0 to 1 that a matching request fails, defaults to always */
+  rate?: number;
+  method?: string;
+  /** Only requests whose path below the API version contains this */
+  path?: string;
+  /** Stop after failing this many requests */
+  times?: number;
+  /** Let this many matching requests through before failing */
+  after?: number;
+}
+
+export interface MockSplineApiOptions {
+  /** 0 picks a free port */
+  port?: number;
+  host?: string;
+  /** URL clients reach the mock at, used in preview and download links; defaults to the listening address */
+  publicUrl?: string;
+  apiVersion?: string;
+  /** Bearer token requests must present; any token is accepted when unset */
+  apiKey?: string;
+  latencyMs?: number;
+  latencyJitterMs?: number;
+  /** How long an export job takes from creation to completion */
+  exportDurationMs?: number;
+  /** Chance from 0 to 1 that an export job fails instead of completing */
+  exportFailureRate?: number;
+  rateLimit?: { limit: number; windowMs: number };
+  faults?: MockFault[];
+  /** Start with the demo scene; otherwise the mock starts empty */
+  seed?: boolean;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  status: number | 'timeout';
+  at: string;
+}
+
+const MAX_RECORDED_REQUESTS = 1000;
+const DOWNLOAD_URL_TTL_MS = 60 * 60 * 1000;
+const EXPORT_EXTENSIONS: Record<string, string> = {
+  gltf: '.gltf',
+  obj: '.obj',
+  fbx: '.fbx',
+  image: '.png',
+  video: '.mp4',
+};
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Stateful in-memory stand-in for the Spline API, implementing every endpoint the managers call.
+ * Export jobs progress over time, and latency, rate limits and faults can be configured up front or
+ * at runtime through the `/__mock` control endpoints. Point `SPLINE_API_BASE_URL` at `url` to use it.
+ */
+export class MockSplineApi {
+  private app: Express;
+  private httpServer?: HttpServer;
+  private scenes = new Map<string, MockScene>();
+  private exportJobs = new Map<string, MockExportJob>();
+  private faults: MockFault[] = [];
+  private requests: MockRequestRecord[] = [];
+  private rateWindow = { startedAt: Date.now(), count: 0 };
+  private baseUrl?: string;
+
+  constructor(private options: MockSplineApiOptions = {}) {
+    this.app = express();
+    this.app.use(express.json({ limit: '4mb' }));
+    this.app.use('/__mock', this.controlRoutes());
+    this.app.use('/files', this.fileRoutes());
+    this.app.use(`/${this.apiVersion}`, this.recordRequest, this.authenticate, this.simulateConditions, this.apiRoutes());
+    this.app.use(this.handleErrors);
+    this.reset();
+  }
+
+  /** Base URL to use as `SPLINE_API_BASE_URL`, available once started */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Mock Spline API is not running');
+    }
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    const host = this.options.host ?? '127.0.0.1';
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer = this.app.listen(this.options.port ?? 0, host, resolve).on('error', reject);
+    });
+
+    const { port } = this.httpServer!.address() as AddressInfo;
+    this.baseUrl = this.options.publicUrl ?? `http://${host}:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.httpServer) {
+      return;
+    }
+    // Requests held open by timeout faults would otherwise keep the server alive
+    this.httpServer.closeAllConnections();
+    await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+    this.httpServer = undefined;
+    this.baseUrl = undefined;
+  }
+
+  /**
+   * Restores the initial state: seeded scenes, no export jobs, the configured faults and an empty request log.
+   */
+  reset() {
+    this.scenes = new Map(((this.options.seed ?? true) ? createSeedScenes() : []).map(mock => [mock.scene.id, mock]));
+    this.exportJobs.clear();
+    this.faults = (this.options.faults ?? []).map(fault => ({ ...fault }));
+    this.requests = [];
+    this.rateWindow = { startedAt: Date.now(), count: 0 };
+  }
+
+  addFault(fault: MockFault) {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  /** Requests received below the API version, oldest first */
+  getRequests(): MockRequestRecord[] {
+    return [...this.requests];
+  }
+
+  getScene(sceneId: string): MockScene | undefined {
+    return this.scenes.get(sceneId);
+  }
+
+  private get apiVersion(): string {
+    return this.options.apiVersion ?? 'v1';
+  }
+
+  private recordRequest = (req: Request, res: Response, next: NextFunction) => {
+    const record: MockRequestRecord = { method: req.method, path: req.path, status: 'timeout', at: new Date().toISOString() };
+    this.requests.push(record);
+    if (this.requests.length > MAX_RECORDED_REQUESTS) {
+      this.requests.shift();
+    }
+    res.on('finish', () => {
+      record.status = res.statusCode;
+    });
+    next();
+  };
+
+  private authenticate = (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (!token || (this.options.apiKey && token !== this.options.apiKey)) {
+      next(new MockHttpError(401, 'Invalid API key'));
+      return;
+    }
+    next();
+  };
+
+  /**
+   * Applies latency, the rate limit and injected faults before a request reaches its route.
+   */
+  private simulateConditions = async (req: Request, res: Response, next: NextFunction) => {
+    const latency = (this.options.latencyMs ?? 0) + Math.random() * (this.options.latencyJitterMs ?? 0);
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const fault = this.faults.find(candidate => {
+      const matches = (!candidate.method || candidate.method.toUpperCase() === req.method) &&
+        (!candidate.path || req.path.includes(candidate.path)) &&
+        (candidate.times === undefined || candidate.times > 0);
+      if (matches && candidate.after) {
+        candidate.after--;
+        return false;
+      }
+      return matches && Math.random() < (candidate.rate ?? 1);
+    });
+
+    if (fault) {
+      if (fault.times !== undefined) {
+        fault.times--;
+      }
+      if (fault.status === 'timeout') {
+        // Never answer; the client's timeout fires and stop() drops the connection
+        return;
+      }
+      if (fault.status === 429) {
+        res.setHeader('Retry-After', '1');
+      }
+      next(new MockHttpError(fault.status, `Injected fault (${fault.status})`));
+      return;
+    }
+
+    const rateLimit = this.options.rateLimit ?? { limit: 600, windowMs: 60000 };
+    if (Date.now() - this.rateWindow.startedAt >= rateLimit.windowMs) {
+      this.rateWindow = { startedAt: Date.now(), count: 0 };
+    }
+    this.rateWindow.count++;
+
+    const resetSeconds = Math.ceil((this.rateWindow.startedAt + rateLimit.windowMs - Date.now()) / 1000);
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, rateLimit.limit - this.rateWindow.count));
+    res.setHeader('X-RateLimit-Reset', resetSeconds);
+
+    if (this.rateWindow.count > rateLimit.limit) {
+      res.setHeader('Retry-After', resetSeconds);
+      next(new MockHttpError(429, 'Rate limit exceeded'));
+      return;
+    }
+
+    next();
+  };
+
+  private handleErrors = (error: Error, req: Request, res: Response, _next: NextFunction) => {
+    const status = error instanceof MockHttpError ? error.status : 500;
+    res.status(status).json({ message: error.message });
+  };
+
+  private apiRoutes(): Router {
+    const router = Router();
+
+    // Scenes
+    router.get('/scenes', (req, res) => {
+      const limit = Number(req.query.limit ?? 50);
+      const offset = Number(req.query.offset ?? 0);
+      const scenes = [...this.scenes.values()].map(mock => mock.scene);
+      res.json({ scenes: scenes.slice(offset, offset + limit), total: scenes.length });
+    });
+
+    router.post('/scenes', (req, res) => {
+      if (!req.body?.name) {
+        throw new MockHttpError(400, 'Scene name is required');
+      }
+      const mock = createMockScene(req.body.name);
+      mock.description = req.body.description;
+      this.scenes.set(mock.scene.id, mock);
+      res.status(201).json(mock.scene);
+    });
+
+    router.get('/scenes/:sceneId', (req, res) => {
+      res.json(this.findScene(req.params.sceneId).scene);
+    });
+
+    router.patch('/scenes/:sceneId', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      if (req.body?.name !== undefined) {
+        mock.scene.name = req.body.name;
+      }
+      if (req.body?.description !== undefined) {
+        mock.description = req.body.description;
+      }
+      this.touch(mock);
+      res.json(mock.scene);
+    });
+
+    router.delete('/scenes/:sceneId', (req, res) => {
+      this.findScene(req.params.sceneId);
+      this.scenes.delete(req.params.sceneId);
+      res.status(204).end();
+    });
+
+    router.post('/scenes/:sceneId/duplicate', (req, res) => {
+      const original = this.findScene(req.params.sceneId);
+      const copy: MockScene = JSON.parse(JSON.stringify(original));
+      const now = new Date();
+      copy.scene = {
+        ...copy.scene,
+        id: uuidv4(),
+        name: req.body?.name ?? `${original.scene.name} (copy)`,
+        version: '1',
+        created: now,
+        modified: now,
+      };
+      copy.scene.url = `https://my.spline.design/${copy.scene.id}`;
+      this.scenes.set(copy.scene.id, copy);
+      res.status(201).json(copy.scene);
+    });
+
+    // Objects
+    router.get('/scenes/:sceneId/objects', (req, res) => {
+      res.json({ objects: this.findScene(req.params.sceneId).objects });
+    });
+
+    router.post('/scenes/:sceneId/objects', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      if (!req.body?.name || !req.body?.type) {
+        throw new MockHttpError(400, 'Object name and type are required');
+      }
+      const object = createMockObject({ ...req.body, id: undefined });
+      mock.objects.push(object);
+      this.touch(mock);
+      res.status(201).json(object);
+    });
+
+    router.get('/scenes/:sceneId/objects/:objectId', (req, res) => {
+      res.json(this.findObject(this.findScene(req.params.sceneId), req.params.objectId));
+    });
+
+    router.patch('/scenes/:sceneId/objects/:objectId', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const object = this.findObject(mock, req.params.objectId);
+      if (typeof req.body?.visible === 'boolean') {
+        object.visible = req.body.visible;
+      }
+      if (typeof req.body?.name === 'string') {
+        object.name = req.body.name;
+      }
+      this.touch(mock);
+      res.json(object);
+    });
+
+    router.delete('/scenes/:sceneId/objects/:objectId', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const object = this.findObject(mock, req.params.objectId);
+      mock.objects = mock.objects.filter(candidate => candidate !== object);
+      this.touch(mock);
+      res.status(204).end();
+    });
+
+    router.patch('/scenes/:sceneId/objects/:objectId/transform', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const object = this.findObject(mock, req.params.objectId);
+      for (const key of ['position', 'rotation', 'scale'] as const) {
+        if (req.body?.[key]) {
+          object[key] = { ...object[key], ...req.body[key] };
+        }
+      }
+      this.touch(mock);
+      res.json(object);
+    });
+
+    router.patch('/scenes/:sceneId/objects/:objectId/properties', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const object = this.findObject(mock, req.params.objectId);
+      object.properties = { ...object.properties, ...req.body?.properties };
+      this.touch(mock);
+      res.json(object);
+    });
+
+    router.post('/scenes/:sceneId/objects/:objectId/duplicate', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const original = this.findObject(mock, req.params.objectId);
+      const copy = createMockObject({ ...JSON.parse(JSON.stringify(original)), id: undefined, name: `${original.name} Copy` });
+      mock.objects.push(copy);
+      this.touch(mock);
+      res.status(201).json(copy);
+    });
+
+    router.post('/scenes/:sceneId/objects/:objectId/transition', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const object = this.findObject(mock, req.params.objectId);
+      // Transitions are not animated here; the object jumps straight to the end state
+      this.applyProperties(object, req.body?.properties ?? {});
+      this.touch(mock);
+      res.status(202).json({ objectId: object.id, duration: req.body?.duration, easing: req.body?.easing });
+    });
+
+    // Animations and variables
+    router.get('/scenes/:sceneId/animations', (req, res) => {
+      res.json({ animations: this.findScene(req.params.sceneId).animations });
+    });
+
+    router.post('/scenes/:sceneId/animations/:name/:action(play|pause|stop)', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      if (!mock.animations.some(animation => animation.name === req.params.name)) {
+        throw new MockHttpError(404, `Animation ${req.params.name} not found`);
+      }
+      const states = { play: 'playing', pause: 'paused', stop: 'stopped' } as const;
+      mock.playback[req.params.name] = states[req.params.action as keyof typeof states];
+      res.json({ name: req.params.name, state: mock.playback[req.params.name] });
+    });
+
+    router.get('/scenes/:sceneId/variables', (req, res) => {
+      res.json({ variables: this.findScene(req.params.sceneId).variables });
+    });
+
+    router.get('/scenes/:sceneId/variables/:name', (req, res) => {
+      const variable = this.findScene(req.params.sceneId).variables.find(candidate => candidate.name === req.params.name);
+      if (!variable) {
+        throw new MockHttpError(404, `Variable ${req.params.name} not found`);
+      }
+      res.json(variable);
+    });
+
+    router.put('/scenes/:sceneId/variables/:name', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      if (req.body?.value === undefined || !req.body?.type) {
+        throw new MockHttpError(400, 'Variable value and type are required');
+      }
+      const variable = { name: req.params.name, value: req.body.value, type: req.body.type };
+      mock.variables = [...mock.variables.filter(candidate => candidate.name !== variable.name), variable];
+      this.touch(mock);
+      res.json(variable);
+    });
+
+    // Exports and previews
+    router.post('/scenes/:sceneId/export', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      if (!req.body?.format || !(req.body.format in EXPORT_EXTENSIONS)) {
+        throw new MockHttpError(400, 'Unsupported export format');
+      }
+      const job: MockExportJob = {
+        id: uuidv4(),
+        sceneId: mock.scene.id,
+        status: 'pending',
+        progress: 0,
+        createdAt: new Date(),
+        options: req.body,
+        durationMs: this.options.exportDurationMs ?? 5000,
+        willFail: Math.random() < (this.options.exportFailureRate ?? 0),
+      };
+      this.exportJobs.set(job.id, job);
+      res.status(202).json(this.toPublicJob(this.jobState(job)));
+    });
+
+    router.get('/scenes/:sceneId/export/history', (req, res) => {
+      this.findScene(req.params.sceneId);
+      const jobs = [...this.exportJobs.values()]
+        .filter(job => job.sceneId === req.params.sceneId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, Number(req.query.limit ?? 20));
+      res.json({ jobs: jobs.map(job => this.toPublicJob(this.jobState(job))) });
+    });
+
+    router.get('/export/jobs/:jobId', (req, res) => {
+      res.json(this.toPublicJob(this.jobState(this.findExportJob(req.params.jobId))));
+    });
+
+    router.delete('/export/jobs/:jobId', (req, res) => {
+      const job = this.findExportJob(req.params.jobId);
+      if (this.jobState(job).status !== 'completed') {
+        job.cancelled = true;
+      }
+      res.status(204).end();
+    });
+
+    router.post('/export/jobs/:jobId/download', (req, res) => {
+      const job = this.jobState(this.findExportJob(req.params.jobId));
+      if (job.status !== 'completed') {
+        throw new MockHttpError(409, `Export job is ${job.status}`);
+      }
+      res.json({
+        downloadUrl: this.downloadUrl(job),
+        expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_MS),
+      });
+    });
+
+    router.get('/scenes/:sceneId/preview', (req, res) => {
+      const mock = this.findScene(req.params.sceneId);
+      const width = Number(req.query.width ?? 800);
+      const height = Number(req.query.height ?? 600);
+      res.json({
+        imageUrl: `${this.baseUrl}/files/previews/${mock.scene.id}.png?width=${width}&height=${height}&version=${mock.scene.version}`,
+      });
+    });
+
+    return router;
+  }
+
+  /**
+   * Unauthenticated file downloads, like the signed URLs Spline hands out.
+   */
+  private fileRoutes(): Router {
+    const router = Router();
+
+    router.get('/previews/:sceneId.png', async (req, res, next) => {
+      try {
+        const mock = this.findScene(req.params.sceneId);
+        const width = Math.min(Math.max(Number(req.query.width) || 800, 1), 4096);
+        const height = Math.min(Math.max(Number(req.query.height) || 600, 1), 4096);
+        res.type('image/png').send(await renderPreview(mock, width, height));
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    router.get('/exports/:jobId/:fileName', async (req, res, next) => {
+      try {
+        const job = this.jobState(this.findExportJob(req.params.jobId));
+        if (job.status !== 'completed') {
+          throw new MockHttpError(409, `Export job is ${job.status}`);
+        }
+        const content = await renderExport(this.findScene(job.sceneId), job.options.format, job.options.width, job.options.height);
+        res.type(EXPORT_EXTENSIONS[job.options.format]).send(content);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    return router;
+  }
+
+  private controlRoutes(): Router {
+    const router = Router();
+
+    router.get('/requests', (req, res) => {
+      res.json({ requests: this.getRequests() });
+    });
+
+    router.post('/reset', (req, res) => {
+      this.reset();
+      res.status(204).end();
+    });
+
+    router.post('/faults', (req, res) => {
+      const fault = req.body as MockFault;
+      if (fault?.status !== 'timeout' && !(typeof fault?.status === 'number' && fault.status >= 400 && fault.status <= 599)) {
+        throw new MockHttpError(400, 'Fault status must be an HTTP error status or "timeout"');
+      }
+      this.addFault(fault);
+      res.status(201).json({ faults: this.faults });
+    });
+
+    router.delete('/faults', (req, res) => {
+      this.clearFaults();
+      res.status(204).end();
+    });
+
+    return router;
+  }
+
+  /**
+   * Current state of a job, derived from how long ago it was created.
+   */
+  private jobState(job: MockExportJob): MockExportJob {
+    const elapsed = Date.now() - job.createdAt.getTime();
+    const progress = Math.min(100, Math.floor((elapsed / Math.max(job.durationMs, 1)) * 100));
+    const finishedAt = new Date(job.createdAt.getTime() + job.durationMs);
+
+    if (job.cancelled) {
+      return { ...job, status: 'cancelled', progress };
+    }
+    if (progress >= 100) {
+      return job.willFail
+        ? { ...job, status: 'failed', error: 'Simulated export failure', progress: 100, completedAt: finishedAt }
+        : { ...job, status: 'completed', progress: 100, completedAt: finishedAt };
+    }
+    return { ...job, status: progress === 0 ? 'pending' : 'processing', progress };
+  }
+
+  private toPublicJob(job: MockExportJob): ExportJob {
+    return {
+      id: job.id,
+      sceneId: job.sceneId,
+      status: job.status,
+      progress: job.progress,
+      downloadUrl: job.status === 'completed' ? this.downloadUrl(job) : undefined,
+      error: job.error,
+      options: job.options,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    };
+  }
+
+  private downloadUrl(job: MockExportJob): string {
+    return `${this.baseUrl}/files/exports/${job.id}/${job.sceneId}${EXPORT_EXTENSIONS[job.options.format]}`;
+  }
+
+  private applyProperties(object: SplineObject, properties: Record<string, any>) {
+    for (const [key, value] of Object.entries(properties)) {
+      if (key === 'position' || key === 'rotation' || key === 'scale') {
+        object[key] = { ...object[key], ...value };
+      } else if (key === 'visible') {
+        object.visible = Boolean(value);
+      } else {
+        object.properties[key] = value;
+      }
+    }
+  }
+
+  private touch(mock: MockScene) {
+    mock.scene.version = String(Number(mock.scene.version) + 1);
+    mock.scene.modified = new Date();
+  }
+
+  private findScene(sceneId: string): MockScene {
+    const mock = this.scenes.get(sceneId);
+    if (!mock) {
+      throw new MockHttpError(404, `Scene ${sceneId} not found`);
+    }
+    return mock;
+  }
+
+  private findObject(mock: MockScene, objectId: string): SplineObject {
+    const object = mock.objects.find(candidate => candidate.id === objectId);
+    if (!object) {
+      throw new MockHttpError(404, `Object ${objectId} not found`);
+    }
+    return object;
+  }
+
+  private findExportJob(jobId: string): MockExportJob {
+    const job = this.exportJobs.get(jobId);
+    if (!job) {
+      throw new MockHttpError(404, `Export job ${jobId} not found`);
+    }
+    return job;
+  }
+}
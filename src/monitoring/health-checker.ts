@@ -0,0 +1,165 @@
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { RateLimiter } from '../utils/rate-limiter';
+import { Validator } from '../utils/validation';
+import { SplineApiClient } from '../api/spline-api-client';
+
+export type ComponentStatus = 'up' | 'down' | 'disabled';
+
+export interface ComponentHealth {
+  status: ComponentStatus;
+  latencyMs?: number;
+  message?: string;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded' | 'unhealthy';
+  ready: boolean;
+  checkedAt: Date;
+  uptimeSeconds: number;
+  checks: {
+    splineApi: ComponentHealth;
+    circuitBreaker: ComponentHealth;
+    redis: ComponentHealth;
+    config: ComponentHealth;
+  };
+}
+
+const CHECK_TIMEOUT_MS = 5000;
+
+export class HealthChecker {
+  private lastReport?: HealthReport;
+  private timer?: NodeJS.Timeout;
+  private readonly startedAt = Date.now();
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    void this.runChecks();
+    this.timer = setInterval(() => void this.runChecks(), config.monitoring.healthCheckInterval);
+    this.timer.unref();
+
+    Logger.info('Health checker started', { intervalMs: config.monitoring.healthCheckInterval });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  get uptimeSeconds(): number {
+    return Math.round((Date.now() - this.startedAt) / 1000);
+  }
+
+  getLastReport(): HealthReport | undefined {
+    return this.lastReport;
+  }
+
+  async runChecks(): Promise<HealthReport> {
+    const [splineApi, redis] = await Promise.all([
+      this.checkSplineApi(),
+      this.checkRedis(),
+    ]);
+    const configHealth = this.checkConfig();
+    const circuitBreaker = this.checkCircuitBreaker();
+
+    const ready = configHealth.status === 'up'
+      && splineApi.status === 'up'
+      && circuitBreaker.status === 'up'
+      && redis.status !== 'down';
+    const report: HealthReport = {
+      status: ready ? 'ok' : configHealth.status === 'down' ? 'unhealthy' : 'degraded',
+      ready,
+      checkedAt: new Date(),
+      uptimeSeconds: this.uptimeSeconds,
+      checks: {
+        splineApi,
+        circuitBreaker,
+        redis,
+        config: configHealth,
+      },
+    };
+
+    if (this.lastReport?.status !== report.status) {
+      Logger.info('Health status changed', { from: this.lastReport?.status, to: report.status, checks: report.checks });
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+
+  private async checkSplineApi(): Promise<ComponentHealth> {
+    const started = Date.now();
+
+    try {
+      const response = await SplineApiClient.shared().get('/scenes', {
+        params: { limit: 1 },
+        timeout: Math.min(config.spline.timeout, CHECK_TIMEOUT_MS),
+        retry: false,
+        throttle: false,
+        circuitBreaker: false,
+        validateStatus: () => true,
+      });
+      const latencyMs = Date.now() - started;
+
+      if (response.status === 401 || response.status === 403) {
+        return { status: 'down', latencyMs, message: 'API key rejected' };
+      }
+      if (response.status >= 500) {
+        return { status: 'down', latencyMs, message: `Server error (${response.status})` };
+      }
+
+      return { status: 'up', latencyMs };
+    } catch (error: unknown) {
+      return { status: 'down', latencyMs: Date.now() - started, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private checkCircuitBreaker(): ComponentHealth {
+    const status = SplineApiClient.shared().getCircuitStatus();
+
+    if (status.state === 'closed') {
+      return { status: 'up' };
+    }
+
+    return {
+      status: 'down',
+      message: status.state === 'open'
+        ? `Circuit open after ${status.consecutiveFailures} consecutive failures, next attempt at ${status.nextAttemptAt?.toISOString()}`
+        : 'Circuit half-open, trial requests in progress',
+    };
+  }
+
+  private async checkRedis(): Promise<ComponentHealth> {
+    if (!RateLimiter.isRedisConfigured()) {
+      return { status: 'disabled' };
+    }
+
+    const started = Date.now();
+    const timeout = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), CHECK_TIMEOUT_MS).unref());
+    const healthy = await Promise.race([RateLimiter.pingRedis(), timeout]);
+
+    return healthy
+      ? { status: 'up', latencyMs: Date.now() - started }
+      : { status: 'down', latencyMs: Date.now() - started, message: 'Redis is not reachable' };
+  }
+
+  private checkConfig(): ComponentHealth {
+    const problems: string[] = [];
+
+    if (!Validator.isValidUrl(config.spline.apiBaseUrl)) {
+      problems.push('SPLINE_API_BASE_URL is not a valid URL');
+    }
+    if (!config.spline.apiKey || config.spline.apiKey === 'your_spline_api_key_here') {
+      problems.push('SPLINE_API_KEY is not set');
+    }
+
+    return problems.length > 0
+      ? { status: 'down', message: problems.join(', ') }
+      : { status: 'up' };
+  }
+}
@@ -0,0 +1,165 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { InternalAxiosRequestConfig } from 'axios';
+import { config } from '../config/config';
+
+const registry = new Registry();
+registry.setDefaultLabels({ service: 'spline-mcp-server' });
+
+if (config.monitoring.enableMetrics) {
+  collectDefaultMetrics({ register: registry });
+}
+
+const toolCalls = new Counter({
+  name: 'spline_mcp_tool_calls_total',
+  help: 'Total number of MCP tool calls',
+  labelNames: ['tool', 'status'] as const,
+  registers: [registry],
+});
+
+const toolCallDuration = new Histogram({
+  name: 'spline_mcp_tool_call_duration_seconds',
+  help: 'MCP tool call latency in seconds',
+  labelNames: ['tool'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+const toolErrors = new Counter({
+  name: 'spline_mcp_tool_errors_total',
+  help: 'Total number of failed MCP tool calls by error code',
+  labelNames: ['tool', 'code'] as const,
+  registers: [registry],
+});
+
+const rateLimitRejections = new Counter({
+  name: 'spline_mcp_rate_limit_rejections_total',
+  help: 'Total number of tool calls rejected by the rate limiter',
+  labelNames: ['tool'] as const,
+  registers: [registry],
+});
+
+const splineApiRequests = new Counter({
+  name: 'spline_api_requests_total',
+  help: 'Total number of outbound Spline API requests',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [registry],
+});
+
+const splineApiDuration = new Histogram({
+  name: 'spline_api_request_duration_seconds',
+  help: 'Outbound Spline API request latency in seconds',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+const exportJobs = new Gauge({
+  name: 'spline_export_jobs',
+  help: 'Number of export jobs seen by this server, by last known state',
+  labelNames: ['state'] as const,
+  registers: [registry],
+});
+
+const circuitState = new Gauge({
+  name: 'spline_api_circuit_state',
+  help: 'Spline API circuit breaker state (0 = closed, 1 = half-open, 2 = open)',
+  registers: [registry],
+});
+
+const circuitRejections = new Counter({
+  name: 'spline_api_circuit_rejections_total',
+  help: 'Total number of Spline API requests rejected while the circuit was open',
+  registers: [registry],
+});
+
+const CIRCUIT_STATE_VALUES: Record<string, number> = { 'closed': 0, 'half-open': 1, 'open': 2 };
+
+const EXPORT_JOB_STATES = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+const MAX_TRACKED_EXPORT_JOBS = 1000;
+
+// Collections in Spline API paths whose next segment is an identifier
+const ID_COLLECTIONS = new Set(['scenes', 'objects', 'animations', 'variables', 'jobs']);
+
+const requestStartTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+const exportJobStates = new Map<string, string>();
+
+export class Metrics {
+  static readonly registry = registry;
+
+  static recordToolCall(tool: string, durationSeconds: number, errorCode?: string) {
+    toolCalls.inc({ tool, status: errorCode ? 'error' : 'success' });
+    toolCallDuration.observe({ tool }, durationSeconds);
+
+    if (errorCode) {
+      toolErrors.inc({ tool, code: errorCode });
+    }
+  }
+
+  static recordRateLimitRejection(tool: string) {
+    rateLimitRejections.inc({ tool });
+  }
+
+  static markSplineApiRequestStart(requestConfig: InternalAxiosRequestConfig) {
+    requestStartTimes.set(requestConfig, Date.now());
+  }
+
+  static recordSplineApiResponse(requestConfig: InternalAxiosRequestConfig | undefined, status?: number) {
+    if (!requestConfig) {
+      return;
+    }
+
+    const labels = {
+      method: (requestConfig.method ?? 'get').toUpperCase(),
+      endpoint: Metrics.normalizeEndpoint(requestConfig.url ?? ''),
+      status: status ? String(status) : 'network_error',
+    };
+    splineApiRequests.inc(labels);
+
+    const startedAt = requestStartTimes.get(requestConfig);
+    if (startedAt !== undefined) {
+      splineApiDuration.observe(labels, (Date.now() - startedAt) / 1000);
+      requestStartTimes.delete(requestConfig);
+    }
+  }
+
+  static recordCircuitState(state: string) {
+    circuitState.set(CIRCUIT_STATE_VALUES[state] ?? 0);
+  }
+
+  static recordCircuitRejection() {
+    circuitRejections.inc();
+  }
+
+  static recordExportJobState(jobId: string, state: string) {
+    // Re-insert so the map stays ordered by last update and the oldest job is evicted first
+    exportJobStates.delete(jobId);
+    exportJobStates.set(jobId, state);
+    if (exportJobStates.size > MAX_TRACKED_EXPORT_JOBS) {
+      exportJobStates.delete(exportJobStates.keys().next().value!);
+    }
+
+    const counts = new Map(EXPORT_JOB_STATES.map(s => [s, 0]));
+    for (const jobState of exportJobStates.values()) {
+      counts.set(jobState, (counts.get(jobState) ?? 0) + 1);
+    }
+    for (const [s, count] of counts) {
+      exportJobs.set({ state: s }, count);
+    }
+  }
+
+  /**
+   * Replaces identifiers in an API path with placeholders to keep label cardinality bounded,
+   * e.g. `/scenes/<uuid>/objects/<id>` becomes `/scenes/:id/objects/:id`.
+   */
+  static normalizeEndpoint(url: string): string {
+    const segments = url.split('?')[0].split('/');
+
+    return segments
+      .map((segment, index) => (index > 0 && ID_COLLECTIONS.has(segments[index - 1]) ? ':id' : segment))
+      .join('/');
+  }
+
+  static async render(): Promise<string> {
+    return registry.metrics();
+  }
+}
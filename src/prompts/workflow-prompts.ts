@@ -0,0 +1,224 @@
+import { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { ValidationError } from '../utils/error-handler';
+import { SplineObject, SplineScene, SplineVariable } from '../types/spline';
+import { ResourceManagers } from '../resources/scene-resources';
+
+interface SceneContext {
+  scene: SplineScene;
+  objects: SplineObject[];
+  variables: SplineVariable[];
+}
+
+interface PromptDefinition extends Prompt {
+  arguments: PromptArgument[];
+  build: (args: Record<string, string>, context: SceneContext) => string;
+}
+
+// Keeps prompts for very large scenes within a sensible size
+const MAX_LISTED_OBJECTS = 200;
+
+const SOCIAL_MEDIA_PRESETS: Record<string, { width: number; height: number; maxDuration: number }> = {
+  instagram: { width: 1080, height: 1080, maxDuration: 60 },
+  'instagram-story': { width: 1080, height: 1920, maxDuration: 15 },
+  tiktok: { width: 1080, height: 1920, maxDuration: 60 },
+  twitter: { width: 1600, height: 900, maxDuration: 140 },
+  linkedin: { width: 1200, height: 627, maxDuration: 300 },
+  youtube: { width: 1920, height: 1080, maxDuration: 300 },
+};
+
+const sceneIdArgument: PromptArgument = {
+  name: 'sceneId',
+  description: 'UUID of the scene to work on',
+  required: true,
+};
+
+const workflowPrompts: PromptDefinition[] = [
+  {
+    name: 'product_turntable_showcase',
+    title: 'Product turntable showcase',
+    description: 'Rotate a product 360° in front of the camera and export it as a looping video',
+    arguments: [
+      sceneIdArgument,
+      { name: 'productObject', description: 'Name or ID of the product object (guessed from the scene if omitted)' },
+      { name: 'durationSeconds', description: 'Length of one full rotation in seconds (default 8)' },
+    ],
+    build: (args, context) => {
+      const duration = Number(args.durationSeconds) || 8;
+      return [
+        `Set up a product turntable showcase in the Spline scene "${context.scene.name}".`,
+        '',
+        args.productObject
+          ? `The product is "${args.productObject}".`
+          : 'Pick the product from the objects below: usually the largest visible mesh or group that is not a floor, backdrop or light.',
+        '',
+        'Steps:',
+        '1. Centre the product at the origin with spline_update_object_transform if it is not already.',
+        `2. Use spline_create_transition to rotate the product 360° around the Y axis over ${duration * 1000} ms with linear easing so the loop is seamless.`,
+        '3. Make sure a camera faces the product and every light needed to see it is visible.',
+        `4. Export a ${duration}s video with spline_export_scene (format "video", quality "high", fps 30) and poll spline_get_export_status until it completes.`,
+        '5. Report the download link and anything you changed.',
+        '',
+        formatSceneContext(context),
+      ].join('\n');
+    },
+  },
+  {
+    name: 'audit_scene',
+    title: 'Audit this scene',
+    description: 'Review a scene for naming, structure and performance problems without changing it',
+    arguments: [
+      sceneIdArgument,
+      { name: 'focus', description: 'Optional area to concentrate on, e.g. performance, naming or interactivity' },
+    ],
+    build: (args, context) => [
+      `Audit the Spline scene "${context.scene.name}". Do not modify anything, only report.`,
+      args.focus ? `Concentrate on: ${args.focus}.` : '',
+      '',
+      'Check for:',
+      '- Default or duplicate object names that make the scene hard to work with',
+      '- Hidden objects that are never shown and could be removed',
+      '- Objects with extreme scale or positioned far from the rest of the scene',
+      '- Variables that look unused or have inconsistent naming',
+      '- Object counts or light counts likely to hurt runtime performance',
+      '',
+      'Group the findings by severity and suggest which tool call would fix each one.',
+      '',
+      formatSceneContext(context),
+    ].join('\n'),
+  },
+  {
+    name: 'hero_section_with_variables',
+    title: 'Hero section with variables',
+    description: 'Turn a scene into a website hero section whose text, colour and state are driven by variables',
+    arguments: [
+      sceneIdArgument,
+      { name: 'headline', description: 'Headline text to show' },
+      { name: 'brandColor', description: 'Primary brand colour as a hex value, e.g. #4f46e5' },
+    ],
+    build: (args, context) => [
+      `Set up the Spline scene "${context.scene.name}" as a hero section for a website.`,
+      '',
+      'Steps:',
+      `1. Create or update a string variable "headline"${args.headline ? ` with the value "${args.headline}"` : ''} and use it for the main text object.`,
+      `2. Create or update a color variable "brandColor"${args.brandColor ? ` set to ${args.brandColor}` : ''} and apply it to the accent objects with spline_update_object_properties.`,
+      '3. Create a boolean variable "isHovered" and use spline_create_transition to give the focal object a subtle scale or rotation change for the hover state.',
+      '4. Reuse existing variables below where they already serve the purpose instead of adding duplicates.',
+      '5. Summarise the variables the website code should set and what each one controls.',
+      '',
+      formatSceneContext(context),
+    ].join('\n'),
+  },
+  {
+    name: 'export_for_social_media',
+    title: 'Export for social media',
+    description: 'Export a scene at the right size and length for a social media platform',
+    arguments: [
+      sceneIdArgument,
+      { name: 'platform', description: `Target platform: ${Object.keys(SOCIAL_MEDIA_PRESETS).join(', ')}`, required: true },
+      { name: 'format', description: 'image or video (default video)' },
+    ],
+    build: (args, context) => {
+      const preset = SOCIAL_MEDIA_PRESETS[args.platform.toLowerCase()];
+      if (!preset) {
+        throw new ValidationError(`Unknown platform ${args.platform}, expected one of ${Object.keys(SOCIAL_MEDIA_PRESETS).join(', ')}`);
+      }
+      const format = args.format === 'image' ? 'image' : 'video';
+
+      return [
+        `Export the Spline scene "${context.scene.name}" for ${args.platform}.`,
+        '',
+        `Use spline_export_scene with format "${format}", quality "high", width ${preset.width} and height ${preset.height}` +
+          (format === 'video' ? `, fps 30 and a duration of at most ${preset.maxDuration} seconds.` : '.'),
+        '',
+        'Before exporting:',
+        '- Check with spline_get_preview_image that the main subject fits the frame at this aspect ratio, and adjust the camera if it does not.',
+        '- If the scene has animations, play the one that best shows the subject.',
+        '',
+        'Poll spline_get_export_status until the job completes, then report the download link.',
+        '',
+        formatSceneContext(context),
+      ].join('\n');
+    },
+  },
+];
+
+function formatSceneContext(context: SceneContext): string {
+  const { scene, objects, variables } = context;
+  const listed = objects.slice(0, MAX_LISTED_OBJECTS);
+
+  const objectLines = listed.map(object => {
+    const position = object.position ? ` at (${object.position.x}, ${object.position.y}, ${object.position.z})` : '';
+    return `- ${object.name} [${object.type}, id ${object.id}]${position}${object.visible === false ? ', hidden' : ''}`;
+  });
+  if (objects.length > listed.length) {
+    objectLines.push(`- ... and ${objects.length - listed.length} more (use spline_get_scene_objects for the full list)`);
+  }
+
+  const variableLines = variables.map(variable => `- ${variable.name} (${variable.type}) = ${JSON.stringify(variable.value)}`);
+
+  return [
+    `Scene: ${scene.name} (id ${scene.id}, version ${scene.version})`,
+    '',
+    `Objects (${objects.length}):`,
+    ...(objectLines.length > 0 ? objectLines : ['- none']),
+    '',
+    `Variables (${variables.length}):`,
+    ...(variableLines.length > 0 ? variableLines : ['- none']),
+  ].join('\n');
+}
+
+/**
+ * Parameterized prompts for common Spline workflows, pre-filled with the live
+ * scene's objects and variables.
+ */
+export class SplinePromptProvider {
+  constructor(private managers: ResourceManagers) {}
+
+  listPrompts(): Prompt[] {
+    return workflowPrompts.map(({ build, ...prompt }) => prompt);
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const prompt = workflowPrompts.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new ValidationError(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Missing required arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`,
+        missing.map(argument => `arguments is missing required property '${argument.name}'`)
+      );
+    }
+
+    const context = await this.loadSceneContext(args.sceneId);
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: prompt.build(args, context),
+          },
+        },
+      ],
+    };
+  }
+
+  private async loadSceneContext(sceneId: string): Promise<SceneContext> {
+    const [scene, objects, variables] = await Promise.all([
+      this.managers.scene.getScene(sceneId),
+      this.managers.object.getSceneObjects(sceneId),
+      this.managers.animation.getVariables(sceneId),
+    ]);
+
+    return {
+      scene: scene.data!,
+      objects: objects.data ?? [],
+      variables: variables.data ?? [],
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger';
+import { NotFoundError } from '../utils/error-handler';
+import { ApiResponse } from '../types/spline';
+import { ToolManagers } from '../tools/registry';
+
+export type ResourceManagers = Pick<ToolManagers, 'scene' | 'object' | 'animation'>;
+
+interface SceneResourceTemplate extends ResourceTemplate {
+  /** Matches a concrete URI, capturing the scene ID */
+  pattern: RegExp;
+  read: (sceneId: string, managers: ResourceManagers) => Promise<ApiResponse>;
+}
+
+const SCENES_URI = 'spline://scenes';
+const JSON_MIME_TYPE = 'application/json';
+
+const sceneResourceTemplates: SceneResourceTemplate[] = [
+  {
+    uriTemplate: 'spline://scene/{sceneId}',
+    name: 'spline-scene',
+    title: 'Spline scene',
+    description: 'Metadata of a Spline scene',
+    mimeType: JSON_MIME_TYPE,
+    pattern: /^spline:\/\/scene\/([^/]+)$/,
+    read: (sceneId, managers) => managers.scene.getScene(sceneId),
+  },
+  {
+    uriTemplate: 'spline://scene/{sceneId}/objects',
+    name: 'spline-scene-objects',
+    title: 'Spline scene objects',
+    description: 'All objects in a Spline scene with their transforms and properties',
+    mimeType: JSON_MIME_TYPE,
+    pattern: /^spline:\/\/scene\/([^/]+)\/objects$/,
+    read: (sceneId, managers) => managers.object.getSceneObjects(sceneId),
+  },
+  {
+    uriTemplate: 'spline://scene/{sceneId}/variables',
+    name: 'spline-scene-variables',
+    title: 'Spline scene variables',
+    description: 'Variables defined in a Spline scene and their current values',
+    mimeType: JSON_MIME_TYPE,
+    pattern: /^spline:\/\/scene\/([^/]+)\/variables$/,
+    read: (sceneId, managers) => managers.animation.getVariables(sceneId),
+  },
+  {
+    uriTemplate: 'spline://scene/{sceneId}/animations',
+    name: 'spline-scene-animations',
+    title: 'Spline scene animations',
+    description: 'Animations defined in a Spline scene',
+    mimeType: JSON_MIME_TYPE,
+    pattern: /^spline:\/\/scene\/([^/]+)\/animations$/,
+    read: (sceneId, managers) => managers.animation.getAnimations(sceneId),
+  },
+];
+
+/**
+ * Exposes scenes and their contents as MCP resources so clients can attach
+ * scene context to a conversation without spending tool calls.
+ */
+export class SplineResourceProvider {
+  constructor(private managers: ResourceManagers) {}
+
+  async listResources(): Promise<Resource[]> {
+    const resources: Resource[] = [
+      {
+        uri: SCENES_URI,
+        name: 'spline-scenes',
+        title: 'Spline scenes',
+        description: 'Scenes available to the configured Spline API key',
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+
+    try {
+      const scenes = await this.managers.scene.listScenes();
+      for (const scene of scenes.data ?? []) {
+        resources.push({
+          uri: SplineResourceProvider.sceneUri(scene.id),
+          name: scene.name,
+          description: `Spline scene owned by ${scene.owner}`,
+          mimeType: JSON_MIME_TYPE,
+        });
+      }
+    } catch (error) {
+      // Listing still works when the API is down, the templates cover individual scenes
+      Logger.warn('Could not list scenes as resources', { error: (error as Error).message });
+    }
+
+    return resources;
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return sceneResourceTemplates.map(({ pattern, read, ...template }) => template);
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const response = await this.resolve(uri);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: JSON_MIME_TYPE,
+          text: JSON.stringify(response.data, null, 2),
+        },
+      ],
+    };
+  }
+
+  static sceneUri(sceneId: string): string {
+    return `spline://scene/${sceneId}`;
+  }
+
+  /**
+   * Returns the scene a `spline://scene/...` URI belongs to, or undefined for any other URI.
+   */
+  static sceneIdFromUri(uri: string): string | undefined {
+    for (const template of sceneResourceTemplates) {
+      const match = template.pattern.exec(uri);
+      if (match) {
+        return decodeURIComponent(match[1]);
+      }
+    }
+    return undefined;
+  }
+
+  private resolve(uri: string): Promise<ApiResponse> {
+    if (uri === SCENES_URI) {
+      return this.managers.scene.listScenes();
+    }
+
+    for (const template of sceneResourceTemplates) {
+      const match = template.pattern.exec(uri);
+      if (match) {
+        return template.read(decodeURIComponent(match[1]), this.managers);
+      }
+    }
+
+    throw new NotFoundError(`Resource ${uri}`);
+  }
+}
@@ -0,0 +1,238 @@
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { NotFoundError, RateLimitError, ValidationError } from '../utils/error-handler';
+import { SplineResourceProvider, ResourceManagers } from './scene-resources';
+
+export type ResourceUpdateListener = (uri: string) => Promise<void>;
+
+export interface SceneWatcherOptions {
+  watchIntervalMs: number;
+  maxWatchedScenes: number;
+}
+
+interface SceneSnapshot {
+  version: string;
+  modified: string;
+  /** Serialized objects keyed by object ID */
+  objects: Map<string, string>;
+}
+
+interface Subscriber {
+  notify: ResourceUpdateListener;
+  uris: Set<string>;
+}
+
+/**
+ * Polls subscribed scenes for edits made outside this server (e.g. a designer in the Spline app)
+ * and tells subscribers which resources changed. A scene is watched while at least one
+ * subscriber holds a URI inside it.
+ */
+export class SceneWatcher {
+  private subscribers = new Map<string, Subscriber>();
+  private scenes = new Map<string, SceneSnapshot>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private managers: Pick<ResourceManagers, 'scene' | 'object'>,
+    private options: SceneWatcherOptions = config.resources
+  ) {}
+
+  get watchedSceneCount(): number {
+    return this.scenes.size;
+  }
+
+  async subscribe(subscriberId: string, uri: string, notify: ResourceUpdateListener) {
+    const sceneId = SplineResourceProvider.sceneIdFromUri(uri);
+    if (!sceneId) {
+      throw new ValidationError(`Only scene resources can be subscribed to, got ${uri}`);
+    }
+
+    if (!this.scenes.has(sceneId)) {
+      if (this.scenes.size >= this.options.maxWatchedScenes) {
+        throw new RateLimitError(`Cannot watch more than ${this.options.maxWatchedScenes} scenes at once`);
+      }
+
+      // Take the baseline now so an unknown scene fails the subscription
+      const snapshot = await this.takeSnapshot(sceneId);
+      if (!this.scenes.has(sceneId)) {
+        this.scenes.set(sceneId, snapshot);
+        Logger.info('Watching scene for changes', { sceneId, watchedScenes: this.scenes.size });
+      }
+    }
+
+    const subscriber = this.subscribers.get(subscriberId) ?? { notify, uris: new Set<string>() };
+    subscriber.uris.add(uri);
+    this.subscribers.set(subscriberId, subscriber);
+
+    this.start();
+  }
+
+  unsubscribe(subscriberId: string, uri: string) {
+    const subscriber = this.subscribers.get(subscriberId);
+    if (!subscriber) {
+      return;
+    }
+
+    subscriber.uris.delete(uri);
+    if (subscriber.uris.size === 0) {
+      this.subscribers.delete(subscriberId);
+    }
+    this.pruneScenes();
+  }
+
+  unsubscribeAll(subscriberId: string) {
+    if (this.subscribers.delete(subscriberId)) {
+      this.pruneScenes();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.poll(), this.options.watchIntervalMs);
+    this.timer.unref();
+  }
+
+  private pruneScenes() {
+    const inUse = new Set<string>();
+    for (const subscriber of this.subscribers.values()) {
+      for (const uri of subscriber.uris) {
+        inUse.add(SplineResourceProvider.sceneIdFromUri(uri)!);
+      }
+    }
+
+    for (const sceneId of this.scenes.keys()) {
+      if (!inUse.has(sceneId)) {
+        this.scenes.delete(sceneId);
+        Logger.info('Stopped watching scene', { sceneId });
+      }
+    }
+
+    if (this.scenes.size === 0) {
+      this.stop();
+    }
+  }
+
+  private async poll() {
+    // A slow poll (throttled or retrying API calls) must not overlap the next one
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      for (const sceneId of [...this.scenes.keys()]) {
+        await this.checkScene(sceneId);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async checkScene(sceneId: string) {
+    let current: SceneSnapshot;
+    try {
+      current = await this.takeSnapshot(sceneId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        Logger.info('Watched scene was deleted', { sceneId });
+        await this.notify(sceneId, () => true);
+        this.dropScene(sceneId);
+        return;
+      }
+
+      Logger.warn('Failed to poll watched scene', { sceneId, error: (error as Error).message });
+      return;
+    }
+
+    const previous = this.scenes.get(sceneId);
+    if (!previous) {
+      // Unsubscribed while the poll was in flight
+      return;
+    }
+    this.scenes.set(sceneId, current);
+
+    const sceneChanged = previous.version !== current.version || previous.modified !== current.modified;
+    const objectChanges = SceneWatcher.diffObjects(previous.objects, current.objects);
+    const objectsChanged = objectChanges.added + objectChanges.removed + objectChanges.changed > 0;
+
+    if (!sceneChanged && !objectsChanged) {
+      return;
+    }
+
+    Logger.info('Watched scene changed', { sceneId, sceneChanged, objectChanges });
+
+    // A new scene version may touch anything in it, object edits only the objects listing
+    await this.notify(sceneId, uri => sceneChanged || uri.endsWith('/objects'));
+  }
+
+  private async takeSnapshot(sceneId: string): Promise<SceneSnapshot> {
+    const [scene, objects] = await Promise.all([
+      this.managers.scene.getScene(sceneId),
+      this.managers.object.getSceneObjects(sceneId),
+    ]);
+
+    return {
+      version: String(scene.data?.version),
+      modified: String(scene.data?.modified),
+      objects: new Map((objects.data ?? []).map(object => [object.id, JSON.stringify(object)])),
+    };
+  }
+
+  private async notify(sceneId: string, filter: (uri: string) => boolean) {
+    for (const [subscriberId, subscriber] of this.subscribers) {
+      for (const uri of subscriber.uris) {
+        if (SplineResourceProvider.sceneIdFromUri(uri) !== sceneId || !filter(uri)) {
+          continue;
+        }
+
+        try {
+          await subscriber.notify(uri);
+        } catch (error) {
+          Logger.warn('Failed to send resource update', { subscriberId, uri, error: (error as Error).message });
+        }
+      }
+    }
+  }
+
+  private dropScene(sceneId: string) {
+    for (const [subscriberId, subscriber] of this.subscribers) {
+      for (const uri of subscriber.uris) {
+        if (SplineResourceProvider.sceneIdFromUri(uri) === sceneId) {
+          subscriber.uris.delete(uri);
+        }
+      }
+      if (subscriber.uris.size === 0) {
+        this.subscribers.delete(subscriberId);
+      }
+    }
+    this.pruneScenes();
+  }
+
+  private static diffObjects(previous: Map<string, string>, current: Map<string, string>) {
+    let added = 0;
+    let changed = 0;
+
+    for (const [id, serialized] of current) {
+      const before = previous.get(id);
+      if (before === undefined) {
+        added++;
+      } else if (before !== serialized) {
+        changed++;
+      }
+    }
+
+    const removed = [...previous.keys()].filter(id => !current.has(id)).length;
+    return { added, removed, changed };
+  }
+}
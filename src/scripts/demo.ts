@@ -0,0 +1,14 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Usage: npm run demo [-- <cassette>]
+// Runs the server on a recorded cassette, cassettes/demo.json by default: no Spline account or network needed.
+// The demo scene in that cassette has the ID 00000000-0000-4000-8000-000000000001.
+process.env.SPLINE_CASSETTE_MODE = 'replay';
+process.env.SPLINE_CASSETTE_PATH = process.argv[2] ?? 'cassettes/demo.json';
+process.env.SPLINE_CASSETTE_ALLOW_REPEATS ??= 'true';
+// Only signs HTTP transport tokens, which a local demo doesn't need to keep secret
+process.env.JWT_SECRET ??= 'demo-jwt-secret-not-for-production-use';
+
+import('../index');
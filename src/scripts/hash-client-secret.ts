@@ -0,0 +1,27 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+
+// Usage: npm run hash-secret -- <clientId> [clientSecret]
+// Prints a client registry entry; a random secret is generated when none is given.
+// Needs no server configuration: only BCRYPT_ROUNDS is read, defaulting to 12 like the server.
+async function main() {
+  const [clientId, providedSecret] = process.argv.slice(2);
+
+  if (!clientId) {
+    console.error('Usage: npm run hash-secret -- <clientId> [clientSecret]');
+    process.exit(1);
+  }
+
+  const clientSecret = providedSecret ?? randomBytes(32).toString('base64url');
+  const secretHash = await bcrypt.hash(clientSecret, Number(process.env.BCRYPT_ROUNDS ?? 12));
+
+  console.log(JSON.stringify({ id: clientId, name: clientId, secretHash, scopes: ['read', 'write', 'delete'] }, null, 2));
+  if (!providedSecret) {
+    console.error(`Generated client secret (store it now, it is not recoverable): ${clientSecret}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import dotenv from 'dotenv';
+import Joi from 'joi';
+import { MockFault, MockSplineApi } from '../mock/mock-spline-api';
+import { MOCK_SCENE_ID } from '../mock/mock-data';
+
+dotenv.config();
+
+// Usage: npm run mock-api
+// Serves the mock Spline API; start the server with SPLINE_API_BASE_URL pointing at the printed URL.
+const envSchema = Joi.object({
+  MOCK_API_PORT: Joi.number().port().default(3999),
+  MOCK_API_KEY: Joi.string().allow('').optional(),
+  MOCK_API_LATENCY_MS: Joi.number().min(0).default(0),
+  MOCK_API_LATENCY_JITTER_MS: Joi.number().min(0).default(0),
+  MOCK_API_EXPORT_DURATION_MS: Joi.number().min(0).default(5000),
+  MOCK_API_EXPORT_FAILURE_RATE: Joi.number().min(0).max(1).default(0),
+  // Comma-separated `status@rate` faults, e.g. `500@0.05,429@0.02,timeout@0.01`
+  MOCK_API_FAULTS: Joi.string()
+    .allow('')
+    .pattern(/^\s*(\d{3}|timeout)@(0(\.\d+)?|1(\.0+)?)\s*(,\s*(\d{3}|timeout)@(0(\.\d+)?|1(\.0+)?)\s*)*$/)
+    .default(''),
+}).unknown();
+
+function parseFaults(value: string): MockFault[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [status, rate] = entry.split('@');
+      return { status: status === 'timeout' ? 'timeout' : Number(status), rate: Number(rate) };
+    });
+}
+
+async function main() {
+  const { error, value: env } = envSchema.validate(process.env);
+  if (error) {
+    throw new Error(`Config validation error: ${error.message}`);
+  }
+
+  const url = `http://localhost:${env.MOCK_API_PORT}`;
+  const mock = new MockSplineApi({
+    port: env.MOCK_API_PORT,
+    host: '0.0.0.0',
+    publicUrl: url,
+    apiKey: env.MOCK_API_KEY || undefined,
+    latencyMs: env.MOCK_API_LATENCY_MS,
+    latencyJitterMs: env.MOCK_API_LATENCY_JITTER_MS,
+    exportDurationMs: env.MOCK_API_EXPORT_DURATION_MS,
+    exportFailureRate: env.MOCK_API_EXPORT_FAILURE_RATE,
+    faults: parseFaults(env.MOCK_API_FAULTS),
+  });
+  await mock.start();
+
+  console.log(`Mock Spline API listening on ${url}`);
+  console.log(`Start the server with SPLINE_API_BASE_URL=${url}; demo scene ID: ${MOCK_SCENE_ID}`);
+
+  const shutdown = () => {
+    mock.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
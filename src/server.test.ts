@@ -0,0 +1,180 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MOCK_SCENE_ID, startHarness, TestHarness, toolError } from './testing/mcp-harness';
+
+describe('SplineMcpServer', () => {
+  let harness: TestHarness;
+
+  const sceneRequests = () => harness.mock.getRequests().filter(request => request.path === `/scenes/${MOCK_SCENE_ID}`);
+
+  beforeAll(async () => {
+    harness = await startHarness({
+      env: {
+        SPLINE_TIMEOUT: '500',
+        // Keep the injected outages below from opening the circuit for later tests
+        SPLINE_CIRCUIT_FAILURE_THRESHOLD: '1000',
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  describe('tools/list', () => {
+    it('lists every tool with schemas and annotations', async () => {
+      const { tools } = await harness.client.listTools();
+
+      expect(tools).toHaveLength(40);
+      for (const tool of tools) {
+        expect(tool.name).toMatch(/^spline_[a-z_]+$/);
+        expect(tool.inputSchema.type).toBe('object');
+        expect(tool.outputSchema).toBeDefined();
+        expect(tool.annotations).toMatchObject({ openWorldHint: true });
+      }
+    });
+
+    it('marks read-only and destructive tools', async () => {
+      const { tools } = await harness.client.listTools();
+      const names = (predicate: (tool: typeof tools[number]) => boolean) =>
+        tools.filter(predicate).map(tool => tool.name).sort();
+
+      expect(names(tool => tool.annotations?.destructiveHint === true)).toEqual([
+        'spline_delete_artifact',
+        'spline_delete_baseline',
+        'spline_delete_object',
+        'spline_delete_scene',
+      ]);
+      expect(names(tool => tool.annotations?.readOnlyHint === true)).toEqual(
+        expect.arrayContaining(['spline_get_scene', 'spline_list_scenes', 'spline_compare_to_baseline'])
+      );
+      expect(names(tool => tool.annotations?.readOnlyHint === true)).not.toContain('spline_render_views');
+    });
+  });
+
+  describe('tools/call', () => {
+    it('rejects an unknown tool', async () => {
+      await expect(harness.callTool('spline_does_not_exist')).rejects.toBeInstanceOf(McpError);
+    });
+
+    it('reports invalid arguments as InvalidParams without calling the Spline API', async () => {
+      await expect(harness.callTool('spline_get_scene', { sceneId: 42 })).rejects.toMatchObject({ code: -32602 });
+      expect(harness.mock.getRequests()).toHaveLength(0);
+    });
+
+    it('sends the error data, e.g. the violations, as the data of a protocol error', async () => {
+      const error = await harness.callTool('spline_get_scene', { sceneId: 42 }).catch(rejection => rejection);
+
+      expect(error.data).toEqual({
+        code: 'VALIDATION_ERROR',
+        statusCode: 400,
+        retryable: false,
+        violations: [expect.stringContaining('sceneId')],
+      });
+      expect(error.message).not.toContain('VALIDATION_ERROR');
+    });
+  });
+
+  describe('client scopes', () => {
+    let viewer: TestHarness;
+
+    beforeAll(async () => {
+      viewer = await startHarness({ authInfo: { token: 'token', clientId: 'viewer', scopes: ['read'] } });
+    });
+
+    afterAll(async () => {
+      await viewer.close();
+    });
+
+    it('lets a client call the tools its scopes cover', async () => {
+      const result = await viewer.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(result.structuredContent).toMatchObject({ id: MOCK_SCENE_ID });
+    });
+
+    it('rejects a tool whose kind needs a scope the client lacks', async () => {
+      await expect(viewer.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID }))
+        .rejects.toMatchObject({ code: -32001, message: expect.stringContaining('needs the delete scope') });
+      expect(viewer.mock.getRequests().filter(request => request.method === 'DELETE')).toEqual([]);
+    });
+  });
+
+  describe('upstream errors', () => {
+    it('maps a 404 to a NOT_FOUND tool error', async () => {
+      harness.mock.addFault({ status: 404, path: '/scenes' });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(toolError(result)).toMatchObject({ code: 'NOT_FOUND', statusCode: 404, retryable: false });
+    });
+
+    it('passes the message of other 4xx answers through', async () => {
+      harness.mock.addFault({ status: 400, method: 'POST', path: '/scenes' });
+      const result = await harness.callTool('spline_create_scene', { name: 'Rejected' });
+
+      expect(toolError(result)).toMatchObject({
+        code: 'SPLINE_API_ERROR',
+        error: 'Spline API Error: Injected fault (400)',
+        statusCode: 400,
+        upstreamStatus: 400,
+        retryable: false,
+        splineRequestId: expect.any(String),
+      });
+    });
+
+    it('maps an upstream 401 to a tool error rather than a client auth failure', async () => {
+      harness.mock.addFault({ status: 401, path: '/scenes' });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(toolError(result)).toMatchObject({ upstreamStatus: 401, retryable: false });
+    });
+
+    it('retries an idempotent request on 5xx and succeeds once the API recovers', async () => {
+      harness.mock.addFault({ status: 503, path: '/scenes', times: 2 });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(result.isError).toBeFalsy();
+      expect(sceneRequests().map(request => request.status)).toEqual([503, 503, 200]);
+    });
+
+    it('gives up on a persistent 5xx after the configured retries', async () => {
+      harness.mock.addFault({ status: 500, path: '/scenes' });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(toolError(result)).toMatchObject({
+        code: 'SPLINE_API_ERROR',
+        error: 'Spline API Error: Server error',
+        upstreamStatus: 500,
+        retryable: true,
+      });
+      expect(sceneRequests()).toHaveLength(4);
+    });
+
+    it('does not retry a non-idempotent request on 5xx', async () => {
+      harness.mock.addFault({ status: 500, method: 'POST', path: '/scenes' });
+      const result = await harness.callTool('spline_create_scene', { name: 'Once' });
+
+      expect(toolError(result).upstreamStatus).toBe(500);
+      expect(harness.mock.getRequests().filter(request => request.method === 'POST')).toHaveLength(1);
+    });
+
+    it('retries a request that timed out', async () => {
+      harness.mock.addFault({ status: 'timeout', path: '/scenes', times: 1 });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(result.isError).toBeFalsy();
+      expect(sceneRequests().map(request => request.status)).toEqual(['timeout', 200]);
+    });
+
+    // Last, since the 429 marks the upstream budget as spent until Retry-After passes
+    it('reports an upstream 429 whose Retry-After exceeds the retry ceiling as retryable', async () => {
+      harness.mock.addFault({ status: 429, path: '/scenes', times: 1 });
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(toolError(result)).toMatchObject({ upstreamStatus: 429, retryable: true });
+      expect(sceneRequests()).toHaveLength(1);
+    });
+  });
+});
@@ -3,29 +3,98 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { v4 as uuidv4 } from 'uuid';
+
+import { config } from './config/config';
 import { Logger } from './utils/logger';
 import { ErrorHandler } from './utils/error-handler';
+import { McpErrorMapper } from './utils/mcp-errors';
 import { RateLimiter } from './utils/rate-limiter';
 
 // Import tool managers
+import { ToolContext, ToolManagers, ToolRegistry } from './tools/registry';
+import { DryRun } from './tools/dry-run';
 import { SplineSceneManager, sceneManagementTools } from './tools/scene-management';
 import { SplineObjectManager, objectManipulationTools } from './tools/object-manipulation';
 import { SplineAnimationManager, animationControlTools } from './tools/animation-control';
 import { SplineExportManager, exportTools } from './tools/export-tools';
+import { SplineApiStatusManager, apiStatusTools } from './tools/api-status';
+import { SplineArtifactManager, artifactTools } from './tools/artifact-tools';
+import { SplineVisualRegressionManager, visualRegressionTools } from './tools/visual-regression-tools';
+import { SplineMultiViewManager, multiViewTools } from './tools/multi-view-tools';
+import { CapturedState, SplineAuditManager, auditTools } from './tools/audit-tools';
+import { SplineResourceProvider } from './resources/scene-resources';
+import { SceneWatcher } from './resources/scene-watcher';
+import { SplinePromptProvider } from './prompts/workflow-prompts';
+
+import { HttpTransportServer } from './transports/http-transport';
+import { HealthChecker } from './monitoring/health-checker';
+import { ClientAuthService } from './auth/client-auth';
+import { Metrics } from './monitoring/metrics';
 
 export class SplineMcpServer {
-  private server: Server;
-  private sceneManager: SplineSceneManager;
-  private objectManager: SplineObjectManager;
-  private animationManager: SplineAnimationManager;
-  private exportManager: SplineExportManager;
+  private server?: Server;
+  private httpTransport?: HttpTransportServer;
+  private healthChecker = new HealthChecker();
+  private managers: ToolManagers;
+  private registry = new ToolRegistry();
+  private resources: SplineResourceProvider;
+  private sceneWatcher: SceneWatcher;
+  private prompts: SplinePromptProvider;
+  private pluginsLoaded?: Promise<void>;
 
   constructor() {
-    this.server = new Server(
+    // Initialize managers
+    const sceneManager = new SplineSceneManager();
+    const objectManager = new SplineObjectManager();
+    const exportManager = new SplineExportManager();
+    this.managers = {
+      scene: sceneManager,
+      object: objectManager,
+      animation: new SplineAnimationManager(),
+      export: exportManager,
+      apiStatus: new SplineApiStatusManager(),
+      artifacts: new SplineArtifactManager(exportManager),
+      visualRegression: new SplineVisualRegressionManager(exportManager, sceneManager),
+      multiView: new SplineMultiViewManager(exportManager, objectManager),
+      audit: new SplineAuditManager(),
+    };
+
+    this.registry.register(
+      ...sceneManagementTools,
+      ...objectManipulationTools,
+      ...animationControlTools,
+      ...exportTools,
+      ...apiStatusTools,
+      ...artifactTools,
+      ...visualRegressionTools,
+      ...multiViewTools,
+      ...auditTools,
+    );
+    this.resources = new SplineResourceProvider(this.managers);
+    this.sceneWatcher = new SceneWatcher(this.managers);
+    this.prompts = new SplinePromptProvider(this.managers);
+
+    Logger.info('Spline MCP Server initialized');
+  }
+
+  /**
+   * Creates an MCP protocol server bound to the shared managers.
+   * Each transport connection (stdio, or one per HTTP session) gets its own instance.
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: 'spline-mcp-server',
         version: '1.0.0',
@@ -33,257 +102,229 @@ export class SplineMcpServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
 
-    // Initialize managers
-    this.sceneManager = new SplineSceneManager();
-    this.objectManager = new SplineObjectManager();
-    this.animationManager = new SplineAnimationManager();
-    this.exportManager = new SplineExportManager();
-
-    this.setupHandlers();
-    Logger.info('Spline MCP Server initialized');
+    this.setupHandlers(server);
+    this.setupSubscriptionHandlers(server);
+    return server;
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       Logger.debug('Listing available tools');
       
       return {
-        tools: [
-          ...sceneManagementTools,
-          ...objectManipulationTools,
-          ...animationControlTools,
-          ...exportTools,
-        ],
+        tools: this.registry.list(),
       };
     });
 
     // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const client = ClientAuthService.identityFromAuthInfo(extra.authInfo);
+      const startedAt = Date.now();
+
+      const tool = this.registry.get(name);
+      if (!tool) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
       
-      Logger.info('Tool called', { toolName: name, requestId, args });
+      Logger.info('Tool called', { toolName: name, requestId, clientId: client.clientId, args });
+
+      // Set once a call that changes state is about to run, so failures are audited too
+      let audited: { args: Record<string, unknown>; context: ToolContext; before?: CapturedState } | undefined;
 
       try {
-        // Rate limiting check
-        const rateLimitKey = `tool:${name}`;
-        const isAllowed = await RateLimiter.checkCustomLimit(rateLimitKey, 100, 60000); // 100 calls per minute
-        
-        if (!isAllowed) {
-          throw new McpError(
-            ErrorCode.InternalError,
-            'Rate limit exceeded for this tool'
-          );
+        ClientAuthService.authorize(client, name, tool.kind);
+        const { dryRun, ...toolArgs } = this.registry.validateArguments(name, args);
+
+        // Rate limiting per caller: authenticated client, else MCP session
+        try {
+          await RateLimiter.enforceToolLimit(name, extra.authInfo ? client.clientId : extra.sessionId ?? client.clientId);
+        } catch (error) {
+          Metrics.recordRateLimitRejection(name);
+          throw error;
+        }
+
+        const context: ToolContext = {
+          requestId,
+          client,
+          sessionId: extra.sessionId,
+          signal: extra.signal,
+          managers: this.managers,
+          reportProgress: async (progress, total, message) => {
+            const progressToken = request.params._meta?.progressToken;
+            if (progressToken !== undefined) {
+              await extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+              });
+            }
+          },
+        };
+
+        if (DryRun.isRequested(tool, dryRun)) {
+          const preview = await DryRun.preview(tool, toolArgs, context);
+
+          Metrics.recordToolCall(name, (Date.now() - startedAt) / 1000);
+          Logger.info('Tool dry run completed', { toolName: name, requestId, clientId: client.clientId, changes: preview.changes.length });
+
+          return DryRun.formatResult(preview);
         }
 
-        let result;
-
-        // Scene Management Tools
-        switch (name) {
-          case 'spline_list_scenes':
-            result = await this.sceneManager.listScenes(args.limit, args.offset);
-            break;
-            
-          case 'spline_get_scene':
-            result = await this.sceneManager.getScene(args.sceneId);
-            break;
-            
-          case 'spline_create_scene':
-            result = await this.sceneManager.createScene(args.name, args.description);
-            break;
-            
-          case 'spline_update_scene':
-            result = await this.sceneManager.updateScene(args.sceneId, {
-              name: args.name,
-              description: args.description,
-            });
-            break;
-            
-          case 'spline_delete_scene':
-            result = await this.sceneManager.deleteScene(args.sceneId);
-            break;
-            
-          case 'spline_duplicate_scene':
-            result = await this.sceneManager.duplicateScene(args.sceneId, args.newName);
-            break;
-
-          // Object Manipulation Tools
-          case 'spline_get_scene_objects':
-            result = await this.objectManager.getSceneObjects(args.sceneId);
-            break;
-            
-          case 'spline_get_object':
-            result = await this.objectManager.getObject(args.sceneId, args.objectId);
-            break;
-            
-          case 'spline_update_object_transform':
-            result = await this.objectManager.updateObjectTransform(args.sceneId, args.objectId, {
-              position: args.position,
-              rotation: args.rotation,
-              scale: args.scale,
-            });
-            break;
-            
-          case 'spline_update_object_properties':
-            result = await this.objectManager.updateObjectProperties(
-              args.sceneId,
-              args.objectId,
-              args.properties
-            );
-            break;
-            
-          case 'spline_set_object_visibility':
-            result = await this.objectManager.setObjectVisibility(
-              args.sceneId,
-              args.objectId,
-              args.visible
-            );
-            break;
-            
-          case 'spline_create_object':
-            result = await this.objectManager.createObject(args.sceneId, {
-              name: args.name,
-              type: args.type,
-              position: args.position,
-              rotation: args.rotation,
-              scale: args.scale,
-              visible: args.visible !== undefined ? args.visible : true,
-              properties: args.properties || {},
-            });
-            break;
-            
-          case 'spline_delete_object':
-            result = await this.objectManager.deleteObject(args.sceneId, args.objectId);
-            break;
-            
-          case 'spline_duplicate_object':
-            result = await this.objectManager.duplicateObject(args.sceneId, args.objectId);
-            break;
-
-          // Animation Control Tools
-          case 'spline_get_animations':
-            result = await this.animationManager.getAnimations(args.sceneId);
-            break;
-            
-          case 'spline_play_animation':
-            result = await this.animationManager.playAnimation(args.sceneId, args.animationName);
-            break;
-            
-          case 'spline_pause_animation':
-            result = await this.animationManager.pauseAnimation(args.sceneId, args.animationName);
-            break;
-            
-          case 'spline_stop_animation':
-            result = await this.animationManager.stopAnimation(args.sceneId, args.animationName);
-            break;
-            
-          case 'spline_get_variables':
-            result = await this.animationManager.getVariables(args.sceneId);
-            break;
-            
-          case 'spline_get_variable':
-            result = await this.animationManager.getVariable(args.sceneId, args.variableName);
-            break;
-            
-          case 'spline_set_variable':
-            result = await this.animationManager.setVariable(args.sceneId, {
-              name: args.name,
-              value: args.value,
-              type: args.type,
-            });
-            break;
-            
-          case 'spline_create_transition':
-            result = await this.animationManager.createTransition(
-              args.sceneId,
-              args.objectId,
-              args.properties,
-              args.duration,
-              args.easing
-            );
-            break;
-
-          // Export Tools
-          case 'spline_export_scene':
-            result = await this.exportManager.exportScene(args.sceneId, {
-              format: args.format,
-              quality: args.quality || 'medium',
-              width: args.width,
-              height: args.height,
-              fps: args.fps,
-              duration: args.duration,
-            });
-            break;
-            
-          case 'spline_get_export_status':
-            result = await this.exportManager.getExportStatus(args.jobId);
-            break;
-            
-          case 'spline_cancel_export':
-            result = await this.exportManager.cancelExport(args.jobId);
-            break;
-            
-          case 'spline_get_export_history':
-            result = await this.exportManager.getExportHistory(args.sceneId, args.limit);
-            break;
-            
-          case 'spline_download_export':
-            result = await this.exportManager.downloadExport(args.jobId);
-            break;
-            
-          case 'spline_get_preview_image':
-            result = await this.exportManager.getPreviewImage(
-              args.sceneId,
-              args.width || 800,
-              args.height || 600
-            );
-            break;
-
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        if (tool.kind !== 'read-only') {
+          audited = { args: toolArgs, context, before: await this.managers.audit.captureBefore(tool, toolArgs, context) };
         }
 
-        Logger.info('Tool executed successfully', { toolName: name, requestId });
+        const result = await tool.handler(toolArgs, context);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        Metrics.recordToolCall(name, (Date.now() - startedAt) / 1000);
+        Logger.info('Tool executed successfully', { toolName: name, requestId, clientId: client.clientId });
+
+        const formatted = ToolRegistry.formatResult(tool, result, toolArgs);
+        if (audited) {
+          await this.managers.audit.recordCall(tool, audited.args, audited.context, audited.before, { result, formatted });
+        }
+        return formatted;
 
       } catch (error) {
-        const errorInfo = ErrorHandler.handle(error);
+        const errorInfo = ErrorHandler.handle(error as Error);
+        Metrics.recordToolCall(name, (Date.now() - startedAt) / 1000, errorInfo.code);
         Logger.error('Tool execution failed', { 
           toolName: name, 
           requestId, 
+          clientId: client.clientId,
           error: errorInfo 
         });
 
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${errorInfo.message}`,
-          errorInfo
-        );
+        if (audited) {
+          await this.managers.audit.recordCall(tool, audited.args, audited.context, audited.before, { error: errorInfo });
+        }
+
+        return McpErrorMapper.fromToolError(errorInfo);
+      }
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      Logger.debug('Listing available resources');
+
+      return {
+        resources: await this.resources.listResources(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resources.listResourceTemplates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      Logger.info('Resource read', { uri });
+
+      try {
+        return await this.resources.readResource(uri);
+      } catch (error) {
+        throw McpErrorMapper.toMcpError(ErrorHandler.handle(error as Error));
+      }
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.prompts.listPrompts(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      Logger.info('Prompt requested', { name });
+
+      try {
+        return await this.prompts.getPrompt(name, args);
+      } catch (error) {
+        throw McpErrorMapper.toMcpError(ErrorHandler.handle(error as Error));
+      }
+    });
+  }
+
+  private setupSubscriptionHandlers(server: Server) {
+    const subscriberId = uuidv4();
+    const notify = (uri: string) => server.sendResourceUpdated({ uri });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      Logger.info('Resource subscribed', { uri, subscriberId });
+
+      try {
+        await this.sceneWatcher.subscribe(subscriberId, uri, notify);
+        return {};
+      } catch (error) {
+        throw McpErrorMapper.toMcpError(ErrorHandler.handle(error as Error));
       }
     });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.sceneWatcher.unsubscribe(subscriberId, request.params.uri);
+      return {};
+    });
+
+    server.onclose = () => this.sceneWatcher.unsubscribeAll(subscriberId);
+  }
+
+  /**
+   * Registers third-party tool modules from TOOL_PLUGINS_DIR, once.
+   */
+  loadPlugins(): Promise<void> {
+    if (!this.pluginsLoaded) {
+      this.pluginsLoaded = config.tools.pluginsDir
+        ? this.registry.loadFromDirectory(config.tools.pluginsDir)
+        : Promise.resolve();
+    }
+    return this.pluginsLoaded;
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  async run(transport: 'stdio' | 'http' = config.mcp.transport) {
+    await this.loadPlugins();
+    Logger.info('Tools registered', { count: this.registry.size });
+
+    if (transport === 'http') {
+      this.httpTransport = new HttpTransportServer({
+        createServer: () => this.createServer(),
+        healthChecker: this.healthChecker,
+        auth: config.auth.enabled ? new ClientAuthService() : undefined,
+      });
+      await this.httpTransport.start();
+      this.healthChecker.start();
+      Logger.info('Spline MCP Server running on Streamable HTTP transport (SSE fallback enabled)');
+      return;
+    }
+
+    this.server = this.createServer();
+    await this.server.connect(new StdioServerTransport());
     Logger.info('Spline MCP Server running on stdio transport');
   }
 
   async close() {
     Logger.info('Shutting down Spline MCP Server');
-    // Add any cleanup logic here
+
+    this.healthChecker.stop();
+    this.sceneWatcher.stop();
+
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+    }
+
+    if (this.server) {
+      await this.server.close();
+    }
+
+    await this.managers.audit.close();
   }
 }
\ No newline at end of file
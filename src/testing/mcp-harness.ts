@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { MockSplineApi, MockSplineApiOptions } from '../mock/mock-spline-api';
+import type { SplineMcpServer } from '../server';
+
+export { MOCK_SCENE_ID } from '../mock/mock-data';
+
+export const TEST_API_KEY = 'test-api-key';
+
+export interface HarnessOptions {
+  mock?: MockSplineApiOptions;
+  /** Extra environment for the server's config, e.g. rate limits */
+  env?: Record<string, string>;
+  /** Sent with every request, as the HTTP transport does for an authenticated client */
+  authInfo?: AuthInfo;
+}
+
+export interface TestHarness {
+  mock: MockSplineApi;
+  server: SplineMcpServer;
+  client: Client;
+  /** Temporary directory holding the artifact and baseline stores and the audit log */
+  dataDir: string;
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<CallToolResult>;
+  close: () => Promise<void>;
+}
+
+export interface ToolErrorPayload {
+  success: false;
+  error: string;
+  code: string;
+  statusCode: number;
+  retryable: boolean;
+  upstreamStatus?: number;
+  splineRequestId?: string;
+  retryAfterMs?: number;
+}
+
+// Fast retries and polling so failure paths don't slow the suite down
+const TEST_ENV: Record<string, string> = {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'error',
+  SPLINE_API_KEY: TEST_API_KEY,
+  JWT_SECRET: 'test-jwt-secret-with-at-least-32-characters',
+  SPLINE_RETRY_BASE_DELAY_MS: '1',
+  SPLINE_RETRY_MAX_DELAY_MS: '50',
+  SPLINE_EXPORT_POLL_INTERVAL_MS: '100',
+  SPLINE_EXPORT_POLL_MAX_INTERVAL_MS: '200',
+  TOOL_PLUGINS_DIR: '',
+};
+
+/**
+ * Starts the mock Spline API and a server connected to an MCP client over an in-memory transport.
+ * The server reads its config from the environment when first imported, so a test file gets one
+ * harness configuration; Jest gives every test file its own module registry.
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<TestHarness> {
+  const mock = new MockSplineApi({ apiKey: TEST_API_KEY, exportDurationMs: 300, ...options.mock });
+  const url = await mock.start();
+  const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'spline-mcp-test-'));
+
+  Object.assign(process.env, TEST_ENV, {
+    SPLINE_API_BASE_URL: url,
+    ARTIFACTS_DIR: path.join(dataDir, 'artifacts'),
+    BASELINES_DIR: path.join(dataDir, 'baselines'),
+    AUDIT_LOG_PATH: path.join(dataDir, 'audit-log.jsonl'),
+  }, options.env);
+
+  // Expected failures would otherwise flood the test output with error logs
+  const { logger } = await import('../utils/logger');
+  logger.silent = true;
+
+  const { SplineMcpServer } = await import('../server');
+  const server = new SplineMcpServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.createServer().connect(serverTransport);
+
+  if (options.authInfo) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, sendOptions) => send(message, { ...sendOptions, authInfo: options.authInfo });
+  }
+
+  const client = new Client({ name: 'spline-mcp-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+
+  return {
+    mock,
+    server,
+    client,
+    dataDir,
+    callTool: async (name, args = {}) => (await client.callTool({ name, arguments: args })) as CallToolResult,
+    close: async () => {
+      await client.close();
+      await server.close();
+      await mock.stop();
+      await fs.promises.rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Text of the first content block, i.e. the summary of a structured result.
+ */
+export function resultText(result: CallToolResult): string {
+  const [first] = result.content;
+  return first?.type === 'text' ? first.text : '';
+}
+
+/**
+ * Structured content of a successful tool result, typed as the tool's output.
+ */
+export function structured<T>(result: CallToolResult): T {
+  if (result.isError) {
+    throw new Error(`Expected a tool result, got: ${resultText(result)}`);
+  }
+  return result.structuredContent as T;
+}
+
+/**
+ * Parses the error payload of an `isError` tool result.
+ */
+export function toolError(result: CallToolResult): ToolErrorPayload {
+  if (!result.isError) {
+    throw new Error(`Expected a tool error, got: ${resultText(result)}`);
+  }
+  return JSON.parse(resultText(result));
+}
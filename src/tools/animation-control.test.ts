@@ -0,0 +1,101 @@
+import { MOCK_SCENE_ID, startHarness, TestHarness, toolError } from '../testing/mcp-harness';
+
+describe('animation control tools', () => {
+  let harness: TestHarness;
+
+  const playback = () => harness.mock.getScene(MOCK_SCENE_ID)!.playback;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('spline_get_animations lists the animations', async () => {
+    const result = await harness.callTool('spline_get_animations', { sceneId: MOCK_SCENE_ID });
+
+    expect(result.structuredContent).toMatchObject({
+      animations: [{ name: 'Spin', loop: true }, { name: 'Float', duration: 3000 }],
+    });
+  });
+
+  it('spline_play_animation, spline_pause_animation and spline_stop_animation change playback', async () => {
+    await harness.callTool('spline_play_animation', { sceneId: MOCK_SCENE_ID, animationName: 'Float' });
+    expect(playback().Float).toBe('playing');
+
+    await harness.callTool('spline_pause_animation', { sceneId: MOCK_SCENE_ID, animationName: 'Float' });
+    expect(playback().Float).toBe('paused');
+
+    const result = await harness.callTool('spline_stop_animation', { sceneId: MOCK_SCENE_ID, animationName: 'Float' });
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(playback().Float).toBe('stopped');
+  });
+
+  it('spline_play_animation reports an unknown animation as not found', async () => {
+    const result = await harness.callTool('spline_play_animation', { sceneId: MOCK_SCENE_ID, animationName: 'Nope' });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+
+  it('spline_get_variables lists the variables', async () => {
+    const result = await harness.callTool('spline_get_variables', { sceneId: MOCK_SCENE_ID });
+
+    expect(result.structuredContent).toMatchObject({
+      variables: expect.arrayContaining([{ name: 'isHovered', value: false, type: 'boolean' }]),
+    });
+  });
+
+  it('spline_get_variable returns one variable', async () => {
+    const result = await harness.callTool('spline_get_variable', { sceneId: MOCK_SCENE_ID, variableName: 'headline' });
+
+    expect(result.structuredContent).toEqual({ name: 'headline', value: 'Meet the product', type: 'string' });
+  });
+
+  it('spline_set_variable updates the value', async () => {
+    const result = await harness.callTool('spline_set_variable', {
+      sceneId: MOCK_SCENE_ID,
+      name: 'headline',
+      value: 'Now in blue',
+      type: 'string',
+    });
+
+    expect(result.structuredContent).toEqual({ name: 'headline', value: 'Now in blue', type: 'string' });
+  });
+
+  it('spline_set_variable rejects an unknown variable type', async () => {
+    await expect(harness.callTool('spline_set_variable', {
+      sceneId: MOCK_SCENE_ID,
+      name: 'headline',
+      value: 'x',
+      type: 'text',
+    })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_create_transition starts a transition with the default easing', async () => {
+    const product = harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.name === 'Product')!;
+    const result = await harness.callTool('spline_create_transition', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      properties: { opacity: 0 },
+      duration: 500,
+    });
+
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('500ms ease transition') });
+  });
+
+  it('spline_create_transition rejects a negative duration', async () => {
+    await expect(harness.callTool('spline_create_transition', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: '00000000-0000-4000-8000-000000000000',
+      properties: { opacity: 0 },
+      duration: -1,
+    })).rejects.toMatchObject({ code: -32602 });
+  });
+});
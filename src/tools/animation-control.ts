@@ -1,71 +1,18 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance } from 'axios';
-import { config } from '../config/config';
 import { Logger } from '../utils/logger';
-import { ErrorHandler, SplineApiError, NotFoundError, ValidationError } from '../utils/error-handler';
+import { SplineApiClient } from '../api/spline-api-client';
+import { ErrorHandler, NotFoundError, ValidationError } from '../utils/error-handler';
 import { Validator } from '../utils/validation';
-import { SplineAnimation, SplineVariable, ApiResponse } from '../types/spline';
+import { SplineAnimation, SplineObject, SplineVariable, ApiResponse } from '../types/spline';
 import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan } from './dry-run';
+import { entityOutput, listOutput, acknowledgementOutput, animationSchema, variableSchema } from './output-schemas';
 
 export class SplineAnimationManager {
-  private api: AxiosInstance;
-
-  constructor() {
-    this.api = axios.create({
-      baseURL: `${config.spline.apiBaseUrl}/${config.spline.apiVersion}`,
-      timeout: config.spline.timeout,
-      headers: {
-        'Authorization': `Bearer ${config.spline.apiKey}`,
-        'Content-Type': 'application/json',
-        'User-Agent': 'Spline-MCP-Server/1.0.0',
-      },
-    });
-
-    this.setupInterceptors();
-  }
+  private api: SplineApiClient;
 
-  private setupInterceptors() {
-    this.api.interceptors.request.use(
-      (config) => {
-        const requestId = uuidv4();
-        config.headers['X-Request-ID'] = requestId;
-        Logger.debug('Spline Animation API request', { 
-          method: config.method,
-          url: config.url,
-          requestId 
-        });
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-
-    this.api.interceptors.response.use(
-      (response) => {
-        Logger.debug('Spline Animation API response', {
-          status: response.status,
-          requestId: response.config.headers['X-Request-ID'],
-        });
-        return response;
-      },
-      (error) => {
-        const requestId = error.config?.headers?.['X-Request-ID'];
-        Logger.error('Spline Animation API error', {
-          status: error.response?.status,
-          message: error.response?.data?.message || error.message,
-          requestId,
-        });
-        
-        if (error.response?.status === 404) {
-          throw new NotFoundError('Animation or Variable');
-        } else if (error.response?.status >= 400 && error.response?.status < 500) {
-          throw new SplineApiError(error.response.data?.message || 'Client error', error.response.status);
-        } else if (error.response?.status >= 500) {
-          throw new SplineApiError('Server error', error.response.status);
-        }
-        
-        throw new SplineApiError(error.message);
-      }
-    );
+  constructor(api: SplineApiClient = SplineApiClient.shared()) {
+    this.api = api.withDefaults({ resourceName: 'Animation or Variable' });
   }
 
   async getAnimations(sceneId: string): Promise<ApiResponse<SplineAnimation[]>> {
@@ -221,12 +168,7 @@ export class SplineAnimationManager {
       if (!objectId) {
         throw new ValidationError('Object ID is required');
       }
-      if (!properties || Object.keys(properties).length === 0) {
-        throw new ValidationError('Properties object cannot be empty');
-      }
-      if (duration <= 0) {
-        throw new ValidationError('Duration must be positive');
-      }
+      this.validateTransition(properties, duration);
 
       await this.api.post(`/scenes/${sceneId}/objects/${objectId}/transition`, {
         properties,
@@ -243,12 +185,100 @@ export class SplineAnimationManager {
       };
     });
   }
+
+  /**
+   * Playback state cannot be read back from the API, so the preview shows the state the animation would be put in.
+   */
+  async previewAnimationAction(
+    sceneId: string,
+    animationName: string,
+    action: 'play' | 'pause' | 'stop'
+  ): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      if (!animationName || animationName.trim().length === 0) {
+        throw new ValidationError('Animation name is required');
+      }
+
+      const animations = (await this.getAnimations(sceneId)).data!;
+      const animation = animations.find(candidate => candidate.name === animationName);
+      if (!animation) {
+        throw new NotFoundError(`Animation ${animationName}`);
+      }
+
+      const states = { play: 'playing', pause: 'paused', stop: 'stopped' } as const;
+      return DryRun.plan(
+        `${action[0].toUpperCase()}${action.slice(1)} animation ${animationName} in scene ${sceneId}`,
+        animation,
+        { ...animation, state: states[action] }
+      );
+    });
+  }
+
+  async previewSetVariable(sceneId: string, variable: SplineVariable): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const validatedVariable = Validator.validate(Validator.variableSchema, variable);
+
+      const variables = (await this.getVariables(sceneId)).data!;
+      const current = variables.find(candidate => candidate.name === variable.name) ?? null;
+
+      return DryRun.plan(
+        `${current ? 'Set' : 'Create'} variable ${variable.name} in scene ${sceneId}`,
+        current,
+        validatedVariable
+      );
+    });
+  }
+
+  async previewCreateTransition(
+    sceneId: string,
+    objectId: string,
+    properties: Record<string, any>,
+    duration: number,
+    easing: string = 'ease'
+  ): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      if (!Validator.isValidUUID(sceneId)) {
+        throw new ValidationError('Invalid scene ID format');
+      }
+      if (!objectId) {
+        throw new ValidationError('Object ID is required');
+      }
+      this.validateTransition(properties, duration);
+
+      const response = await this.api.get<SplineObject>(`/scenes/${sceneId}/objects/${objectId}`, { resourceName: 'Object' });
+      const object = response.data;
+
+      // Transform keys merge per axis and `visible` is a field of its own; anything else is a custom property
+      const after = { ...object, properties: { ...object.properties } };
+      for (const [key, value] of Object.entries(properties)) {
+        if (key === 'position' || key === 'rotation' || key === 'scale') {
+          after[key] = { ...object[key], ...value };
+        } else if (key === 'visible') {
+          after.visible = Boolean(value);
+        } else {
+          after.properties[key] = value;
+        }
+      }
+
+      return DryRun.plan(`Transition ${object.name} (${object.id}) over ${duration}ms with ${easing} easing`, object, after);
+    });
+  }
+
+  private validateTransition(properties: Record<string, any>, duration: number) {
+    if (!properties || Object.keys(properties).length === 0) {
+      throw new ValidationError('Properties object cannot be empty');
+    }
+    if (duration <= 0) {
+      throw new ValidationError('Duration must be positive');
+    }
+  }
 }
 
-export const animationControlTools: Tool[] = [
-  {
+export const animationControlTools: ToolDefinition[] = [
+  defineTool<{ sceneId: string }>({
     name: "spline_get_animations",
     description: "Get all animations available in a Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -259,11 +289,14 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: listOutput<SplineAnimation>("animations", animationSchema, (animation) => `${animation.name} (${animation.duration}ms${animation.loop ? ', loop' : ''})`),
+    handler: (args, { managers }) => managers.animation.getAnimations(args.sceneId)
+  }),
+  defineTool<{ sceneId: string; animationName: string }>({
     name: "spline_play_animation",
     description: "Play a specific animation in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -279,11 +312,15 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "animationName"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Playing animation ${args.animationName}`),
+    handler: (args, { managers }) => managers.animation.playAnimation(args.sceneId, args.animationName),
+    dryRun: (args, { managers }) => managers.animation.previewAnimationAction(args.sceneId, args.animationName, 'play')
+  }),
+  defineTool<{ sceneId: string; animationName: string }>({
     name: "spline_pause_animation",
     description: "Pause a currently playing animation in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -299,11 +336,15 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "animationName"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Paused animation ${args.animationName}`),
+    handler: (args, { managers }) => managers.animation.pauseAnimation(args.sceneId, args.animationName),
+    dryRun: (args, { managers }) => managers.animation.previewAnimationAction(args.sceneId, args.animationName, 'pause')
+  }),
+  defineTool<{ sceneId: string; animationName: string }>({
     name: "spline_stop_animation",
     description: "Stop a currently playing animation in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -319,11 +360,15 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "animationName"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Stopped animation ${args.animationName}`),
+    handler: (args, { managers }) => managers.animation.stopAnimation(args.sceneId, args.animationName),
+    dryRun: (args, { managers }) => managers.animation.previewAnimationAction(args.sceneId, args.animationName, 'stop')
+  }),
+  defineTool<{ sceneId: string }>({
     name: "spline_get_variables",
     description: "Get all variables defined in a Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -334,11 +379,14 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: listOutput<SplineVariable>("variables", variableSchema, (variable) => `${variable.name} (${variable.type}) = ${JSON.stringify(variable.value)}`),
+    handler: (args, { managers }) => managers.animation.getVariables(args.sceneId)
+  }),
+  defineTool<{ sceneId: string; variableName: string }>({
     name: "spline_get_variable",
     description: "Get the value of a specific variable in a Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -355,11 +403,14 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "variableName"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineVariable>(variableSchema, (variable) => `${variable.name} (${variable.type}) = ${JSON.stringify(variable.value)}`),
+    handler: (args, { managers }) => managers.animation.getVariable(args.sceneId, args.variableName)
+  }),
+  defineTool<{ sceneId: string; name: string; value: unknown; type: SplineVariable['type'] }>({
     name: "spline_set_variable",
     description: "Set the value of a variable in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -384,11 +435,23 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "name", "value", "type"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineVariable>(variableSchema, (variable) => `Set ${variable.name} = ${JSON.stringify(variable.value)}`),
+    handler: (args, { managers }) => managers.animation.setVariable(args.sceneId, {
+      name: args.name,
+      value: args.value,
+      type: args.type,
+    }),
+    dryRun: (args, { managers }) => managers.animation.previewSetVariable(args.sceneId, {
+      name: args.name,
+      value: args.value,
+      type: args.type,
+    })
+  }),
+  defineTool<{ sceneId: string; objectId: string; properties: Record<string, unknown>; duration: number; easing?: string }>({
     name: "spline_create_transition",
     description: "Create a smooth transition animation for an object's properties",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -420,6 +483,21 @@ export const animationControlTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId", "properties", "duration"]
-    }
-  }
+    },
+    output: acknowledgementOutput((args) => `Started ${args.duration}ms ${args.easing} transition on object ${args.objectId}`),
+    handler: (args, { managers }) => managers.animation.createTransition(
+      args.sceneId,
+      args.objectId,
+      args.properties,
+      args.duration,
+      args.easing
+    ),
+    dryRun: (args, { managers }) => managers.animation.previewCreateTransition(
+      args.sceneId,
+      args.objectId,
+      args.properties,
+      args.duration,
+      args.easing
+    )
+  })
 ];
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness } from '../testing/mcp-harness';
+
+describe('API status tools', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ mock: { rateLimit: { limit: 50, windowMs: 60000 } } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('spline_get_rate_limit_status is unknown before any Spline API request', async () => {
+    const result = await harness.callTool('spline_get_rate_limit_status');
+
+    expect(result.structuredContent).toMatchObject({ known: false, throttling: false });
+  });
+
+  it('spline_get_rate_limit_status reflects the upstream rate limit headers', async () => {
+    await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+    const result = await harness.callTool('spline_get_rate_limit_status');
+
+    expect(result.structuredContent).toMatchObject({
+      known: true,
+      limit: 50,
+      remaining: expect.any(Number),
+      throttling: false,
+    });
+    expect(structured<{ remaining: number }>(result).remaining).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,53 @@
+import { SplineApiClient } from '../api/spline-api-client';
+import { RateLimitStatus } from '../api/upstream-rate-limiter';
+import { ErrorHandler } from '../utils/error-handler';
+import { ApiResponse } from '../types/spline';
+import { v4 as uuidv4 } from 'uuid';
+import { ToolDefinition } from './registry';
+import { entityOutput } from './output-schemas';
+
+export class SplineApiStatusManager {
+  private api: SplineApiClient;
+
+  constructor(api: SplineApiClient = SplineApiClient.shared()) {
+    this.api = api;
+  }
+
+  async getRateLimitStatus(): Promise<ApiResponse<RateLimitStatus>> {
+    return ErrorHandler.handleAsync(async () => {
+      return {
+        success: true,
+        data: this.api.getRateLimitStatus(),
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      };
+    });
+  }
+}
+
+export const apiStatusTools: ToolDefinition[] = [
+  {
+    name: "spline_get_rate_limit_status",
+    description: "Get the remaining Spline API request budget and when it resets, to plan bulk operations",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    output: entityOutput<RateLimitStatus>({
+      type: "object",
+      properties: {
+        known: { type: "boolean", description: "Whether the API has reported its budget yet" },
+        limit: { type: "number" },
+        remaining: { type: "number" },
+        reset: { type: "string", description: "ISO 8601 timestamp" },
+        throttling: { type: "boolean" },
+        waitingRequests: { type: "number" }
+      },
+      required: ["known", "throttling", "waitingRequests"]
+    }, (status) => status.known
+      ? `${status.remaining}/${status.limit} requests left until ${status.reset}${status.throttling ? `, throttling ${status.waitingRequests} requests` : ''}`
+      : 'Rate limit not reported by the Spline API yet'),
+    handler: (args, { managers }) => managers.apiStatus.getRateLimitStatus()
+  }
+];
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import type { ArtifactManifest, ArtifactStore } from '../artifacts/artifact-store';
+import { StoredArtifact } from './artifact-tools';
+import { ExportJob } from './export-tools';
+
+describe('artifact tools', () => {
+  let harness: TestHarness;
+
+  const completeExport = async (): Promise<ExportJob> =>
+    structured<ExportJob>(await harness.callTool('spline_export_and_wait', { sceneId: MOCK_SCENE_ID, format: 'gltf' }));
+  const storeExport = async (): Promise<StoredArtifact> => {
+    const { id } = await completeExport();
+    const stored = await harness.callTool('spline_store_export', { jobId: id });
+    return structured<StoredArtifact>(stored);
+  };
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('spline_store_export downloads a completed export into the store', async () => {
+    const artifact = await storeExport();
+
+    expect(artifact).toMatchObject({ sceneId: MOCK_SCENE_ID, fileName: expect.stringMatching(/\.gltf$/) });
+    expect(artifact.path.startsWith(harness.dataDir)).toBe(true);
+    expect(fs.statSync(artifact.path).size).toBe(artifact.sizeBytes);
+  });
+
+  it('spline_store_export records the format and options the export job reports', async () => {
+    const artifact = await storeExport();
+
+    expect(artifact).toMatchObject({ format: 'gltf', options: { format: 'gltf', quality: 'medium' } });
+  });
+
+  it('keeps the artifact just stored when the store is over its size cap', async () => {
+    const { ArtifactStore } = await import('../artifacts/artifact-store');
+    const capped: ArtifactStore = new ArtifactStore({
+      dir: path.join(harness.dataDir, 'capped'),
+      maxFileSizeBytes: 1024 * 1024,
+      maxTotalSizeBytes: 1,
+      maxInlineSizeBytes: 1024 * 1024,
+      retentionMs: 0,
+    });
+    const store = async (job: ExportJob) =>
+      capped.store({ jobId: job.id, sceneId: job.sceneId, downloadUrl: job.downloadUrl! });
+
+    const older = await store(await completeExport());
+    const newer = await store(await completeExport());
+
+    expect((await capped.list()).map(manifest => manifest.id)).toEqual([newer.id]);
+    expect(older.id).not.toBe(newer.id);
+  });
+
+  it('spline_store_export rejects a malformed job ID', async () => {
+    await expect(harness.callTool('spline_store_export', { jobId: 'job-1' })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_store_export reports an unknown job as not found', async () => {
+    const result = await harness.callTool('spline_store_export', { jobId: '00000000-0000-4000-8000-000000000000' });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+
+  it('spline_list_artifacts and spline_get_artifact return stored artifacts', async () => {
+    const artifact = await storeExport();
+
+    const listed = await harness.callTool('spline_list_artifacts', { sceneId: MOCK_SCENE_ID });
+    expect(structured<{ artifacts: ArtifactManifest[] }>(listed).artifacts)
+      .toContainEqual(expect.objectContaining({ id: artifact.id }));
+
+    const fetched = await harness.callTool('spline_get_artifact', { artifactId: artifact.id, verify: true });
+    expect(fetched.structuredContent).toMatchObject({ id: artifact.id, sha256: artifact.sha256, checksumValid: true });
+  });
+
+  it('spline_get_artifact returns the file as an embedded resource', async () => {
+    const artifact = await storeExport();
+    const result = await harness.callTool('spline_get_artifact', { artifactId: artifact.id });
+
+    const [, embedded] = result.content as Array<{ type: string; resource: { uri: string; mimeType: string; blob: string } }>;
+    expect(embedded).toMatchObject({ type: 'resource', resource: { uri: expect.stringContaining(artifact.id), mimeType: 'model/gltf+json' } });
+    expect(Buffer.from(embedded.resource.blob, 'base64')).toEqual(fs.readFileSync(artifact.path));
+    expect(result.structuredContent).not.toHaveProperty('content');
+
+    const manifestOnly = await harness.callTool('spline_get_artifact', { artifactId: artifact.id, includeContent: false });
+    expect(manifestOnly.content).toHaveLength(1);
+  });
+
+  it('spline_get_artifact refuses to inline a file above the inline size limit', async () => {
+    const { config } = await import('../config/config');
+    const artifact = await storeExport();
+    const limit = config.artifacts.maxInlineSizeBytes;
+    config.artifacts.maxInlineSizeBytes = 1;
+
+    try {
+      const result = await harness.callTool('spline_get_artifact', { artifactId: artifact.id });
+      expect(toolError(result)).toMatchObject({ code: 'ARTIFACT_TOO_LARGE', statusCode: 413 });
+    } finally {
+      config.artifacts.maxInlineSizeBytes = limit;
+    }
+  });
+
+  it('spline_delete_artifact removes the artifact', async () => {
+    const artifact = await storeExport();
+    const result = await harness.callTool('spline_delete_artifact', { artifactId: artifact.id });
+
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(fs.existsSync(artifact.path)).toBe(false);
+    expect(toolError(await harness.callTool('spline_get_artifact', { artifactId: artifact.id })).code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,274 @@
+import { ErrorHandler, NotFoundError, ValidationError } from '../utils/error-handler';
+import { ApiResponse } from '../types/spline';
+import { ArtifactManifest, ArtifactStore } from '../artifacts/artifact-store';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan } from './dry-run';
+import { ExportJob, SplineExportManager } from './export-tools';
+import { acknowledgementOutput, entityOutput, listOutput } from './output-schemas';
+
+export interface StoredArtifact extends ArtifactManifest {
+  path: string;
+  /** Set when the checksum was re-verified on request */
+  checksumValid?: boolean;
+}
+
+export interface ArtifactWithContent extends StoredArtifact {
+  /** The stored file, sent as an embedded resource rather than structured content */
+  content?: { uri: string; mimeType: string; blob: string };
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.obj': 'model/obj',
+  '.png': 'image/png',
+  '.mp4': 'video/mp4',
+};
+
+export class SplineArtifactManager {
+  constructor(
+    private exportManager: SplineExportManager,
+    private store: ArtifactStore = new ArtifactStore()
+  ) {}
+
+  /**
+   * Downloads a completed export into the local artifact store, recording the format and options the job reports.
+   * Storing the same job again returns the existing artifact.
+   */
+  async storeExport(jobId: string): Promise<ApiResponse<StoredArtifact>> {
+    return ErrorHandler.handleAsync(async () => {
+      const job = await this.getCompletedExport(jobId);
+
+      // Fetch a fresh URL, the one on the job may already have expired
+      const download = await this.exportManager.downloadExport(jobId);
+      const manifest = await this.store.store({
+        jobId,
+        sceneId: job.sceneId,
+        downloadUrl: download.data!.downloadUrl,
+        format: job.options?.format,
+        options: job.options,
+        exportCreatedAt: job.createdAt,
+        exportCompletedAt: job.completedAt,
+      });
+
+      return this.toResponse({ ...manifest, path: await this.store.getFilePath(manifest.id) });
+    });
+  }
+
+  async listArtifacts(sceneId?: string): Promise<ApiResponse<ArtifactManifest[]>> {
+    return ErrorHandler.handleAsync(async () => this.toResponse(await this.store.list(sceneId)));
+  }
+
+  /**
+   * Returns the manifest of a stored export and, unless `includeContent` is off, the file itself
+   * base64-encoded, since clients of a remote server cannot read its path.
+   */
+  async getArtifact(
+    artifactId: string,
+    verify: boolean = false,
+    includeContent: boolean = true
+  ): Promise<ApiResponse<ArtifactWithContent>> {
+    return ErrorHandler.handleAsync(async () => {
+      const manifest = await this.store.get(artifactId);
+      const filePath = await this.store.getFilePath(artifactId);
+
+      return this.toResponse({
+        ...manifest,
+        path: filePath,
+        checksumValid: verify ? await this.store.verify(artifactId) : undefined,
+        content: includeContent
+          ? {
+            uri: `spline://artifact/${artifactId}/${encodeURIComponent(manifest.fileName)}`,
+            mimeType: MIME_TYPES[path.extname(manifest.fileName).toLowerCase()] ?? 'application/octet-stream',
+            blob: (await this.store.read(artifactId)).toString('base64'),
+          }
+          : undefined,
+      });
+    });
+  }
+
+  async deleteArtifact(artifactId: string): Promise<ApiResponse<void>> {
+    return ErrorHandler.handleAsync(async () => {
+      await this.store.delete(artifactId);
+      return this.toResponse(undefined);
+    });
+  }
+
+  async previewStoreExport(jobId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const job = await this.getCompletedExport(jobId);
+
+      // Storing a job twice returns what is already there
+      const existing = await this.findStoredExport(jobId);
+      if (existing) {
+        return DryRun.plan(`Return artifact ${describeArtifact(existing)}, already stored for export job ${jobId}`, existing, existing);
+      }
+
+      return DryRun.plan(
+        `Download export job ${jobId} of scene ${job.sceneId} into the artifact store`,
+        null,
+        { jobId, sceneId: job.sceneId, format: job.options?.format, options: job.options, exportCreatedAt: job.createdAt, exportCompletedAt: job.completedAt }
+      );
+    });
+  }
+
+  /**
+   * The artifact already stored for an export job, if any. Artifacts are keyed by export job.
+   */
+  async findStoredExport(jobId: string): Promise<ArtifactManifest | null> {
+    return this.store.get(jobId).catch((error) => {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    });
+  }
+
+  async previewDeleteArtifact(artifactId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const manifest = await this.store.get(artifactId);
+      return DryRun.plan(`Delete artifact ${describeArtifact(manifest)}`, manifest, null);
+    });
+  }
+
+  private async getCompletedExport(jobId: string): Promise<ExportJob> {
+    const job = (await this.exportManager.getExportStatus(jobId)).data!;
+    if (job.status !== 'completed') {
+      throw new ValidationError(`Export job ${jobId} is ${job.status}, only completed exports can be stored`);
+    }
+    return job;
+  }
+
+  private toResponse<T>(data: T): ApiResponse<T> {
+    return {
+      success: true,
+      data,
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    };
+  }
+}
+
+const artifactSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    jobId: { type: "string" },
+    sceneId: { type: "string" },
+    format: { type: "string" },
+    options: { type: "object", description: "Options the export was made with" },
+    fileName: { type: "string" },
+    sizeBytes: { type: "number" },
+    sha256: { type: "string" },
+    exportCreatedAt: { type: "string", description: "ISO 8601 timestamp" },
+    exportCompletedAt: { type: "string", description: "ISO 8601 timestamp" },
+    storedAt: { type: "string", description: "ISO 8601 timestamp" },
+    expiresAt: { type: "string", description: "ISO 8601 timestamp, absent if kept forever" },
+    path: { type: "string", description: "Absolute path of the file on the server" },
+    checksumValid: { type: "boolean" }
+  },
+  required: ["id", "sceneId", "fileName", "sizeBytes", "sha256"]
+};
+
+function describeArtifact(artifact: ArtifactManifest): string {
+  const size = artifact.sizeBytes < 1024 * 1024
+    ? `${Math.ceil(artifact.sizeBytes / 1024)}KB`
+    : `${(artifact.sizeBytes / 1024 / 1024).toFixed(1)}MB`;
+  return `${artifact.fileName} (${artifact.id}, ${size}, sha256 ${artifact.sha256.slice(0, 12)}…)`;
+}
+
+export const artifactTools: ToolDefinition[] = [
+  defineTool<{ jobId: string }>({
+    name: "spline_store_export",
+    description: "Download a completed export into the server's artifact store so it remains available after the download URL expires",
+    kind: "mutating",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "UUID of the completed export job",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        }
+      },
+      required: ["jobId"]
+    },
+    output: entityOutput<StoredArtifact>(artifactSchema, (artifact) => `Stored ${describeArtifact(artifact)} at ${artifact.path}`),
+    handler: (args, { managers }) => managers.artifacts.storeExport(args.jobId),
+    dryRun: (args, { managers }) => managers.artifacts.previewStoreExport(args.jobId),
+    // The dry run also reads the job upstream; what is already stored is local
+    auditBefore: (args, { managers }) => managers.artifacts.findStoredExport(args.jobId)
+  }),
+  defineTool<{ sceneId?: string }>({
+    name: "spline_list_artifacts",
+    description: "List exports stored in the artifact store, newest first",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: {
+          type: "string",
+          description: "Only list artifacts of this scene",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        }
+      }
+    },
+    output: listOutput<ArtifactManifest>("artifacts", artifactSchema, describeArtifact),
+    handler: (args, { managers }) => managers.artifacts.listArtifacts(args.sceneId)
+  }),
+  defineTool<{ artifactId: string; verify?: boolean; includeContent?: boolean }>({
+    name: "spline_get_artifact",
+    description: "Get a stored export: its manifest and the file as an embedded resource, optionally re-verifying its SHA-256 checksum",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        artifactId: {
+          type: "string",
+          description: "ID of the artifact (the export job ID)",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        },
+        verify: {
+          type: "boolean",
+          description: "Recompute the checksum of the stored file",
+          default: false
+        },
+        includeContent: {
+          type: "boolean",
+          description: "Return the file itself, base64-encoded; turn off for files above the inline size limit",
+          default: true
+        }
+      },
+      required: ["artifactId"]
+    },
+    output: {
+      ...entityOutput<StoredArtifact>(artifactSchema, (artifact) =>
+        `${describeArtifact(artifact)} at ${artifact.path}` +
+        (artifact.checksumValid === undefined ? '' : artifact.checksumValid ? ', checksum verified' : ', CHECKSUM MISMATCH')),
+      toStructured: ({ content, ...artifact }: ArtifactWithContent) => JSON.parse(JSON.stringify(artifact)),
+      resources: (artifact: ArtifactWithContent) => artifact.content ? [artifact.content] : []
+    },
+    handler: (args, { managers }) => managers.artifacts.getArtifact(args.artifactId, args.verify, args.includeContent)
+  }),
+  defineTool<{ artifactId: string }>({
+    name: "spline_delete_artifact",
+    description: "Delete a stored export from the artifact store",
+    kind: "destructive",
+    inputSchema: {
+      type: "object",
+      properties: {
+        artifactId: {
+          type: "string",
+          description: "ID of the artifact (the export job ID)",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        }
+      },
+      required: ["artifactId"]
+    },
+    output: acknowledgementOutput((args) => `Deleted artifact ${args.artifactId}`),
+    handler: (args, { managers }) => managers.artifacts.deleteArtifact(args.artifactId),
+    dryRun: (args, { managers }) => managers.artifacts.previewDeleteArtifact(args.artifactId)
+  })
+];
@@ -0,0 +1,257 @@
+import fs from 'fs';
+import path from 'path';
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { SplineObject, SplineScene } from '../types/spline';
+import type { AuditEntry, AuditStreamClient } from '../audit/audit-log';
+
+describe('audit log', () => {
+  let harness: TestHarness;
+
+  const objectNamed = (name: string): SplineObject =>
+    harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.name === name)!;
+  const auditLog = async (args: Record<string, unknown> = {}) =>
+    structured<{ entries: AuditEntry[] }>(await harness.callTool('spline_get_audit_log', args)).entries;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(async () => {
+    harness.mock.reset();
+    await fs.promises.rm(path.join(harness.dataDir, 'audit-log.jsonl'), { force: true });
+  });
+
+  it('records a mutation with the caller and the state before and after', async () => {
+    const product = objectNamed('Product');
+    const position = { ...product.position };
+    await harness.callTool('spline_update_object_transform', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      position: { x: 10, y: 20, z: 30 },
+    });
+
+    const [entry] = await auditLog();
+    expect(entry).toMatchObject({
+      tool: 'spline_update_object_transform',
+      kind: 'mutating',
+      clientId: 'local',
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      arguments: { position: { x: 10, y: 20, z: 30 } },
+      before: { position },
+      after: { position: { x: 10, y: 20, z: 30 } },
+      outcome: 'succeeded',
+    });
+    expect(entry.arguments).not.toHaveProperty('dryRun');
+  });
+
+  it('records a deletion with the deleted state', async () => {
+    const sphere = objectNamed('Accent Sphere');
+    await harness.callTool('spline_delete_object', { sceneId: MOCK_SCENE_ID, objectId: sphere.id });
+
+    const [entry] = await auditLog({ objectId: sphere.id });
+    expect(entry).toMatchObject({ kind: 'destructive', before: { id: sphere.id, name: 'Accent Sphere' }, after: null });
+  });
+
+  it('reads only the target for the state before a call', async () => {
+    const scene = structured<SplineScene>(await harness.callTool('spline_create_scene', { name: 'Doomed' }));
+    const requestCount = harness.mock.getRequests().length;
+    await harness.callTool('spline_delete_scene', { sceneId: scene.id });
+
+    expect(harness.mock.getRequests().slice(requestCount).map(request => `${request.method} ${request.path}`)).toEqual([
+      `GET /scenes/${scene.id}`,
+      `DELETE /scenes/${scene.id}`,
+    ]);
+    expect(await auditLog({ tool: 'spline_delete_scene' })).toMatchObject([{ before: { id: scene.id, name: 'Doomed' }, after: null }]);
+  });
+
+  it('records the scene a creation made', async () => {
+    const scene = structured<SplineScene>(await harness.callTool('spline_create_scene', { name: 'Audited' }));
+
+    expect(await auditLog({ sceneId: scene.id })).toMatchObject([
+      { tool: 'spline_create_scene', before: null, after: { id: scene.id, name: 'Audited' } },
+    ]);
+  });
+
+  it('records failed calls with their error', async () => {
+    const result = await harness.callTool('spline_delete_scene', { sceneId: '00000000-0000-4000-8000-000000000000' });
+    expect(toolError(result).code).toBe('NOT_FOUND');
+
+    const [entry] = await auditLog();
+    expect(entry).toMatchObject({ tool: 'spline_delete_scene', outcome: 'failed', after: null, error: { code: 'NOT_FOUND' } });
+  });
+
+  it('leaves out read-only calls and dry runs', async () => {
+    await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+    await harness.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID, dryRun: true });
+
+    expect(await auditLog()).toEqual([]);
+  });
+
+  it('appends one JSON line per call and queries newest first', async () => {
+    const product = objectNamed('Product');
+    await harness.callTool('spline_set_object_visibility', { sceneId: MOCK_SCENE_ID, objectId: product.id, visible: false });
+    await harness.callTool('spline_set_object_visibility', { sceneId: MOCK_SCENE_ID, objectId: product.id, visible: true });
+    await harness.callTool('spline_play_animation', { sceneId: MOCK_SCENE_ID, animationName: 'Spin' });
+
+    const lines = (await fs.promises.readFile(path.join(harness.dataDir, 'audit-log.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).tool)).toEqual([
+      'spline_set_object_visibility',
+      'spline_set_object_visibility',
+      'spline_play_animation',
+    ]);
+
+    const entries = await auditLog({ objectId: product.id });
+    expect(entries.map(entry => (entry.after as SplineObject).visible)).toEqual([true, false]);
+    expect(await auditLog({ tool: 'spline_play_animation' })).toMatchObject([{ after: { name: 'Spin', state: 'playing' } }]);
+    expect(await auditLog({ limit: 1 })).toMatchObject([{ tool: 'spline_play_animation' }]);
+  });
+
+  it('filters by client and time range', async () => {
+    await harness.callTool('spline_create_scene', { name: 'Timed' });
+    const future = new Date(Date.now() + 60_000).toISOString();
+
+    expect(await auditLog({ clientId: 'local' })).toHaveLength(1);
+    expect(await auditLog({ clientId: 'someone-else' })).toEqual([]);
+    expect(await auditLog({ since: future })).toEqual([]);
+    expect(await auditLog({ until: future })).toHaveLength(1);
+  });
+
+  it('rejects a time range that ends before it starts', async () => {
+    await expect(harness.callTool('spline_get_audit_log', {
+      since: '2026-02-01T00:00:00Z',
+      until: '2026-01-01T00:00:00Z',
+    })).rejects.toMatchObject({ code: -32602 });
+  });
+});
+
+describe('Redis stream audit backend', () => {
+  // Imported once a harness has set up the environment the config module reads on import
+  let AuditLog: typeof import('../audit/audit-log').AuditLog;
+
+  /** In-memory stream whose IDs are the entries' timestamps, as when Redis adds them */
+  class FakeStreamClient implements AuditStreamClient {
+    isOpen = false;
+    messages: Array<{ id: string; message: Record<string, string> }> = [];
+    ranges: Array<[string, string]> = [];
+
+    async connect() {
+      this.isOpen = true;
+    }
+
+    async quit() {
+      this.isOpen = false;
+    }
+
+    async xAdd(_key: string, _id: string, message: Record<string, string>) {
+      const id = `${Date.parse(JSON.parse(message.entry).timestamp)}-${this.messages.length}`;
+      this.messages.push({ id, message });
+      return id;
+    }
+
+    async xRevRange(_key: string, end: string, start: string, options?: { COUNT?: number }) {
+      this.ranges.push([end, start]);
+      const parse = (id: string, missingSequence: number) => {
+        const [ms, sequence] = id.replace('(', '').split('-');
+        return [Number(ms), sequence === undefined ? missingSequence : Number(sequence)];
+      };
+      const compare = (a: number[], b: number[]) => a[0] - b[0] || a[1] - b[1];
+      const upper = end === '+' ? [Infinity, 0] : parse(end, Infinity);
+      const lower = start === '-' ? [-Infinity, 0] : parse(start, 0);
+
+      return this.messages
+        .filter(({ id }) => {
+          const key = parse(id, 0);
+          const belowEnd = end.startsWith('(') ? compare(key, upper) < 0 : compare(key, upper) <= 0;
+          return belowEnd && compare(key, lower) >= 0;
+        })
+        .reverse()
+        .slice(0, options?.COUNT);
+    }
+  }
+
+  const BASE_TIME = Date.parse('2026-01-01T00:00:00Z');
+  const at = (index: number) => new Date(BASE_TIME + index * 1000);
+
+  // 1200 entries a second apart; only the first ten are scene deletions
+  const seed = (client: FakeStreamClient) => {
+    for (let index = 0; index < 1200; index++) {
+      client.messages.push({
+        id: `${at(index).getTime()}-0`,
+        message: {
+          entry: JSON.stringify({
+            id: String(index),
+            timestamp: at(index).toISOString(),
+            tool: index < 10 ? 'spline_delete_scene' : 'spline_set_variable',
+            clientId: 'local',
+          }),
+        },
+      });
+    }
+  };
+
+  const createLog = (client: FakeStreamClient) =>
+    new AuditLog({ backend: 'redis', path: '', redisStream: 'audit', captureState: false, redisClient: client });
+  const ids = (entries: AuditEntry[]) => entries.map(entry => entry.id);
+
+  beforeAll(async () => {
+    ({ AuditLog } = await import('../audit/audit-log'));
+  });
+
+  it('appends entries to the stream', async () => {
+    const client = new FakeStreamClient();
+    const log = createLog(client);
+    const entry = await log.append({
+      tool: 'spline_delete_object',
+      kind: 'destructive',
+      clientId: 'local',
+      clientName: 'Local',
+      requestId: 'request',
+      arguments: {},
+      before: null,
+      after: null,
+      outcome: 'succeeded',
+    });
+
+    expect(await log.query({ limit: 10 })).toEqual([entry]);
+    await log.close();
+    expect(client.isOpen).toBe(false);
+  });
+
+  it('pages backwards until enough entries match', async () => {
+    const client = new FakeStreamClient();
+    seed(client);
+
+    const entries = await createLog(client).query({ tool: 'spline_delete_scene', limit: 50 });
+
+    expect(ids(entries)).toEqual(['9', '8', '7', '6', '5', '4', '3', '2', '1', '0']);
+    // Each page ends just before the last message of the one before
+    expect(client.ranges).toEqual([
+      ['+', '-'],
+      [`(${at(700).getTime()}-0`, '-'],
+      [`(${at(200).getTime()}-0`, '-'],
+    ]);
+  });
+
+  it('stops paging once the limit is reached', async () => {
+    const client = new FakeStreamClient();
+    seed(client);
+
+    expect(ids(await createLog(client).query({ limit: 3 }))).toEqual(['1199', '1198', '1197']);
+    expect(client.ranges).toHaveLength(1);
+  });
+
+  it('reads the time range from the stream IDs, both ends inclusive', async () => {
+    const client = new FakeStreamClient();
+    seed(client);
+    const log = createLog(client);
+
+    expect(ids(await log.query({ until: at(100), limit: 2 }))).toEqual(['100', '99']);
+    expect(ids(await log.query({ since: at(1198), limit: 10 }))).toEqual(['1199', '1198']);
+    expect(ids(await log.query({ since: at(5), until: at(7), limit: 10 }))).toEqual(['7', '6', '5']);
+  });
+});
@@ -0,0 +1,230 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger';
+import { ErrorHandler, ErrorInfo, SplineError, ValidationError } from '../utils/error-handler';
+import { ApiResponse } from '../types/spline';
+import { AuditEntry, AuditLog } from '../audit/audit-log';
+import { v4 as uuidv4 } from 'uuid';
+import { ToolContext, ToolDefinition, ToolRegistry } from './registry';
+import { listOutput } from './output-schemas';
+
+export interface AuditLogFilter {
+  sceneId?: string;
+  objectId?: string;
+  clientId?: string;
+  tool?: string;
+  /** ISO 8601 bounds of the time range, both inclusive */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/** State read before a call for its audit entry */
+export interface CapturedState {
+  before: unknown;
+  /** Planned end state, standing in for calls whose result carries none */
+  after?: unknown;
+}
+
+export interface CallOutcome {
+  /** What the handler returned, and the CallTool result built from it */
+  result?: unknown;
+  formatted?: CallToolResult;
+  error?: ErrorInfo;
+}
+
+function parseTime(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new ValidationError(`${name} must be an ISO 8601 date and time`);
+  }
+  return time;
+}
+
+export class SplineAuditManager {
+  constructor(private log: AuditLog = new AuditLog()) {}
+
+  async getAuditLog(filter: AuditLogFilter): Promise<ApiResponse<AuditEntry[]>> {
+    return ErrorHandler.handleAsync(async () => {
+      if (!this.log.enabled) {
+        throw new SplineError('The audit log is disabled, set AUDIT_LOG_BACKEND to file or redis to record one', 400, 'AUDIT_LOG_DISABLED');
+      }
+
+      const since = parseTime(filter.since, 'since');
+      const until = parseTime(filter.until, 'until');
+      if (since && until && since > until) {
+        throw new ValidationError('since must not be later than until');
+      }
+
+      const entries = await this.log.query({
+        sceneId: filter.sceneId,
+        objectId: filter.objectId,
+        clientId: filter.clientId,
+        tool: filter.tool,
+        since,
+        until,
+        limit: filter.limit ?? 50,
+      });
+
+      return {
+        success: true,
+        data: entries,
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      };
+    });
+  }
+
+  /**
+   * Reads the state a call is about to change, through the tool's `auditBefore` when it declares one
+   * and its dry run otherwise. A failed read does not stop the call, which reports its own error if
+   * the read failed for the same reason.
+   */
+  async captureBefore(definition: ToolDefinition, args: Record<string, unknown>, context: ToolContext): Promise<CapturedState | undefined> {
+    if (!this.log.capturesState) {
+      return undefined;
+    }
+
+    try {
+      if (definition.auditBefore) {
+        return { before: await definition.auditBefore(args, context) };
+      }
+      return definition.dryRun && (await definition.dryRun(args, context)).data;
+    } catch (error) {
+      Logger.warn('Could not capture state for the audit log', { toolName: definition.name, requestId: context.requestId, error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Appends the call to the audit log. The change has already been made by now, so a failed
+   * write is logged rather than failing the call.
+   */
+  async recordCall(
+    definition: ToolDefinition,
+    args: Record<string, unknown>,
+    context: ToolContext,
+    plan: CapturedState | undefined,
+    outcome: CallOutcome
+  ) {
+    if (!this.log.enabled || definition.kind === 'read-only') {
+      return;
+    }
+
+    const data = outcome.error ? undefined : ToolRegistry.resultData(outcome.result);
+    // Acknowledgements carry no state, so the planned end state stands in for them
+    const after = outcome.error
+      ? null
+      : data === undefined ? plan?.after ?? null : outcome.formatted?.structuredContent ?? data;
+    const before = plan?.before ?? null;
+
+    const entity = (after ?? before) as { sceneId?: unknown } | null;
+    const target = {
+      sceneId: typeof args.sceneId === 'string' ? args.sceneId : typeof entity?.sceneId === 'string' ? entity.sceneId : undefined,
+      objectId: typeof args.objectId === 'string' ? args.objectId : undefined,
+      ...(data !== undefined && definition.auditTarget?.(args, data)),
+    };
+
+    try {
+      await this.log.append({
+        tool: definition.name,
+        kind: definition.kind,
+        clientId: context.client.clientId,
+        clientName: context.client.clientName,
+        sessionId: context.sessionId,
+        requestId: context.requestId,
+        ...target,
+        arguments: args,
+        before,
+        after,
+        outcome: outcome.error ? 'failed' : 'succeeded',
+        error: outcome.error && { code: outcome.error.code, message: outcome.error.message },
+      });
+    } catch (error) {
+      Logger.error('Failed to write audit log entry', { toolName: definition.name, requestId: context.requestId, error: (error as Error).message });
+    }
+  }
+
+  async close() {
+    await this.log.close();
+  }
+}
+
+const auditEntrySchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    timestamp: { type: "string", description: "ISO 8601 timestamp" },
+    tool: { type: "string" },
+    kind: { type: "string", enum: ["mutating", "destructive"] },
+    clientId: { type: "string" },
+    clientName: { type: "string" },
+    sessionId: { type: "string" },
+    requestId: { type: "string" },
+    sceneId: { type: "string" },
+    objectId: { type: "string" },
+    arguments: { type: "object" },
+    before: { description: "State before the call, null when nothing existed or it was not captured" },
+    after: { description: "State after the call, null when it deleted something or failed" },
+    outcome: { type: "string", enum: ["succeeded", "failed"] },
+    error: {
+      type: "object",
+      properties: {
+        code: { type: "string" },
+        message: { type: "string" }
+      }
+    }
+  },
+  required: ["id", "timestamp", "tool", "clientId", "outcome"]
+};
+
+export const auditTools: ToolDefinition[] = [
+  {
+    name: "spline_get_audit_log",
+    description: "Query the audit log of calls that changed state, newest first, with who made them and the state before and after",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: {
+          type: "string",
+          description: "Only calls that targeted this scene",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        },
+        objectId: {
+          type: "string",
+          description: "Only calls that targeted this object"
+        },
+        clientId: {
+          type: "string",
+          description: "Only calls made by this client"
+        },
+        tool: {
+          type: "string",
+          description: "Only calls to this tool, e.g. spline_delete_object"
+        },
+        since: {
+          type: "string",
+          description: "Start of the time range, ISO 8601 (inclusive)"
+        },
+        until: {
+          type: "string",
+          description: "End of the time range, ISO 8601 (inclusive)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of entries to return (1-500)",
+          minimum: 1,
+          maximum: 500,
+          default: 50
+        }
+      }
+    },
+    output: listOutput<AuditEntry>("entries", auditEntrySchema, (entry) =>
+      `${entry.timestamp} ${entry.clientId} ${entry.tool}${entry.objectId ? ` object ${entry.objectId}` : ''}` +
+        `${entry.sceneId ? ` scene ${entry.sceneId}` : ''}: ${entry.outcome}${entry.error ? ` (${entry.error.code})` : ''}`),
+    handler: (args, { managers }) => managers.audit.getAuditLog(args)
+  }
+];
@@ -0,0 +1,196 @@
+import { MOCK_SCENE_ID, resultText, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { SplineObject } from '../types/spline';
+import type { DryRunPreview } from './dry-run';
+
+describe('dry runs', () => {
+  let harness: TestHarness;
+
+  const objectNamed = (name: string): SplineObject =>
+    harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.name === name)!;
+  const writeRequests = () => harness.mock.getRequests().filter(request => request.method !== 'GET');
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('advertises the dryRun argument on every tool that changes state', async () => {
+    const { tools } = await harness.client.listTools();
+
+    for (const tool of tools) {
+      expect([tool.name, 'dryRun' in (tool.inputSchema.properties ?? {})])
+        .toEqual([tool.name, tool.annotations?.readOnlyHint !== true]);
+    }
+  });
+
+  it('previews a transform update without sending it', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_update_object_transform', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      position: { x: 10, y: product.position.y, z: product.position.z },
+      dryRun: true,
+    });
+
+    const preview = structured<DryRunPreview>(result);
+    expect(preview).toMatchObject({ dryRun: true, tool: 'spline_update_object_transform', before: { position: product.position } });
+    expect(preview.changes).toEqual([{ path: 'position.x', before: product.position.x, after: 10 }]);
+    expect(resultText(result)).toContain(`position.x: ${product.position.x} -> 10`);
+    expect(writeRequests()).toEqual([]);
+    expect(objectNamed('Product').position).toEqual(product.position);
+  });
+
+  it('previews a scene deletion and keeps the scene', async () => {
+    const result = await harness.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID, dryRun: true });
+
+    const preview = structured<DryRunPreview>(result);
+    expect(preview.description).toMatch(/^Delete scene .+ and its 7 object\(s\)$/);
+    expect(preview).toMatchObject({ before: { id: MOCK_SCENE_ID }, after: null, changes: [{ path: '$' }] });
+    expect(writeRequests()).toEqual([]);
+    expect(harness.mock.getScene(MOCK_SCENE_ID)).toBeDefined();
+  });
+
+  it('leaves the name of a duplicated scene to Spline unless one is given', async () => {
+    const result = await harness.callTool('spline_duplicate_scene', { sceneId: MOCK_SCENE_ID, dryRun: true });
+
+    expect(structured<DryRunPreview>(result)).toMatchObject({
+      description: expect.stringMatching(/ as \(chosen by Spline\)$/),
+      before: null,
+      after: { name: '(chosen by Spline)' },
+    });
+    expect(writeRequests()).toEqual([]);
+  });
+
+  it('leaves the name of a duplicated object to Spline', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_duplicate_object', { sceneId: MOCK_SCENE_ID, objectId: product.id, dryRun: true });
+
+    expect(structured<DryRunPreview>(result)).toMatchObject({
+      description: expect.stringMatching(/ as \(chosen by Spline\)$/),
+      before: null,
+      after: { name: '(chosen by Spline)', type: product.type },
+    });
+    expect(writeRequests()).toEqual([]);
+  });
+
+  it('previews setting a new variable as a creation', async () => {
+    const result = await harness.callTool('spline_set_variable', {
+      sceneId: MOCK_SCENE_ID,
+      name: 'price',
+      value: 42,
+      type: 'number',
+      dryRun: true,
+    });
+
+    expect(structured<DryRunPreview>(result)).toMatchObject({
+      description: `Create variable price in scene ${MOCK_SCENE_ID}`,
+      before: null,
+      after: { name: 'price', value: 42, type: 'number' },
+    });
+    expect(writeRequests()).toEqual([]);
+  });
+
+  it('previews a transition with the properties it would apply', async () => {
+    const sphere = objectNamed('Accent Sphere');
+    const result = await harness.callTool('spline_create_transition', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: sphere.id,
+      properties: { scale: { x: 2 }, visible: false, color: '#ff0000' },
+      duration: 500,
+      dryRun: true,
+    });
+
+    const paths = structured<DryRunPreview>(result).changes.map(change => change.path);
+    expect(paths).toEqual(expect.arrayContaining(['scale.x', 'visible', 'properties.color']));
+    expect(writeRequests()).toEqual([]);
+  });
+
+  it('still validates the call', async () => {
+    await expect(harness.callTool('spline_create_transition', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: objectNamed('Product').id,
+      properties: {},
+      duration: 500,
+      dryRun: true,
+    })).rejects.toMatchObject({ code: -32602, message: expect.stringContaining('Properties object cannot be empty') });
+  });
+
+  it('reports a missing target as not found', async () => {
+    const result = await harness.callTool('spline_play_animation', {
+      sceneId: MOCK_SCENE_ID,
+      animationName: 'Nope',
+      dryRun: true,
+    });
+
+    expect(toolError(result)).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('runs normally when dryRun is false', async () => {
+    const product = objectNamed('Product');
+    await harness.callTool('spline_set_object_visibility', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      visible: false,
+      dryRun: false,
+    });
+
+    expect(objectNamed('Product').visible).toBe(false);
+  });
+
+  describe('with DRY_RUN on', () => {
+    let config: typeof import('../config/config').config;
+
+    beforeAll(async () => {
+      ({ config } = await import('../config/config'));
+      config.tools.dryRun = true;
+    });
+
+    afterAll(() => {
+      config.tools.dryRun = false;
+    });
+
+    it('previews mutating calls even when they do not ask for it', async () => {
+      const result = await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf', dryRun: false });
+
+      expect(structured<DryRunPreview>(result)).toMatchObject({ dryRun: true, before: null, after: { format: 'gltf' } });
+      expect(writeRequests()).toEqual([]);
+    });
+
+    it('leaves read-only tools alone', async () => {
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+      expect(structured<{ id: string }>(result).id).toBe(MOCK_SCENE_ID);
+    });
+  });
+});
+
+describe('DryRun.diff', () => {
+  // Imported once a harness has set up the environment the config module reads on import
+  let DryRun: typeof import('./dry-run').DryRun;
+
+  beforeAll(async () => {
+    ({ DryRun } = await import('./dry-run'));
+  });
+
+  it('lists changed leaf fields by path', () => {
+    expect(DryRun.diff(
+      { name: 'a', position: { x: 1, y: 2 }, tags: ['x'] },
+      { name: 'a', position: { x: 1, y: 3 }, tags: ['x', 'y'] }
+    )).toEqual([
+      { path: 'position.y', before: 2, after: 3 },
+      { path: 'tags', before: ['x'], after: ['x', 'y'] },
+    ]);
+  });
+
+  it('reports a creation or deletion as one change of the whole entity', () => {
+    expect(DryRun.diff(null, { id: '1' })).toEqual([{ path: '$', before: null, after: { id: '1' } }]);
+    expect(DryRun.diff({ id: '1' }, null)).toEqual([{ path: '$', before: { id: '1' }, after: null }]);
+  });
+});
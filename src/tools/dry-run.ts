@@ -0,0 +1,168 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { ValidationError } from '../utils/error-handler';
+import { ApiResponse } from '../types/spline';
+import type { ToolContext, ToolDefinition } from './registry';
+
+/**
+ * What a tool plans to do, returned by its `dryRun` instead of applying the change.
+ */
+export interface DryRunPlan {
+  /** The change in one sentence, e.g. "Delete scene Product Showcase (…)" */
+  description: string;
+  /** Current state of what the call would write; null when it would create something */
+  before: unknown;
+  /** State after the call; null when it would delete something */
+  after: unknown;
+}
+
+export interface DryRunChange {
+  /** Dotted path of the changed field, `$` when the whole entity is created or deleted */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DryRunPreview extends DryRunPlan {
+  dryRun: true;
+  tool: string;
+  changes: DryRunChange[];
+}
+
+export const dryRunPreviewSchema = {
+  type: 'object',
+  properties: {
+    dryRun: { type: 'boolean', const: true },
+    tool: { type: 'string' },
+    description: { type: 'string' },
+    before: {},
+    after: {},
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          before: {},
+          after: {},
+        },
+        required: ['path'],
+      },
+    },
+  },
+  required: ['dryRun', 'tool', 'description', 'changes'],
+};
+
+/** Stands in for the name of a copy the Spline API names itself */
+export const NAME_CHOSEN_BY_SPLINE = '(chosen by Spline)';
+
+const dryRunProperty = {
+  type: 'boolean',
+  description: 'Validate the call and preview the change against the current state without applying it. Always on when the server runs in dry-run mode',
+  default: false,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return 'unset';
+  }
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Previews of mutating tool calls. A tool supports dry runs by declaring `dryRun`, which validates the
+ * arguments, reads the current state and describes the change without sending the write request.
+ */
+export class DryRun {
+  /**
+   * Whether a call must only be previewed: a tool that changes state, called with `dryRun` or while the
+   * server runs with DRY_RUN=true, which a call cannot switch off.
+   */
+  static isRequested(definition: ToolDefinition, requested: unknown): boolean {
+    return definition.kind !== 'read-only' && (config.tools.dryRun || requested === true);
+  }
+
+  static async preview(definition: ToolDefinition, args: Record<string, unknown>, context: ToolContext): Promise<DryRunPreview> {
+    if (!definition.dryRun) {
+      throw new ValidationError(`${definition.name} does not support dry runs, so it was not run`);
+    }
+
+    const plan = (await definition.dryRun(args, context)).data!;
+    return {
+      dryRun: true,
+      tool: definition.name,
+      ...plan,
+      changes: this.diff(plan.before, plan.after),
+    };
+  }
+
+  /**
+   * Wraps a plan in the ApiResponse envelope managers return.
+   */
+  static plan(description: string, before: unknown, after: unknown): ApiResponse<DryRunPlan> {
+    return {
+      success: true,
+      data: { description, before: before ?? null, after: after ?? null },
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    };
+  }
+
+  /**
+   * Fields that differ between two states, recursing into nested objects; arrays compare as a whole.
+   */
+  static diff(before: unknown, after: unknown, path = '$'): DryRunChange[] {
+    if (path === '$' && (before === null || after === null)) {
+      return before === after ? [] : [{ path, before, after }];
+    }
+    if (isPlainObject(before) && isPlainObject(after)) {
+      const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+      return keys.flatMap(key => this.diff(before[key], after[key], path === '$' ? key : `${path}.${key}`));
+    }
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, before, after }];
+  }
+
+  static formatResult(preview: DryRunPreview): CallToolResult {
+    const changes = preview.changes
+      .filter(change => change.path !== '$')
+      .map(change => `- ${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`);
+
+    return {
+      structuredContent: { ...preview },
+      content: [{
+        type: 'text',
+        text: [`Dry run, nothing was changed. Would: ${preview.description}`, ...changes].join('\n'),
+      }],
+    };
+  }
+
+  /**
+   * The input schema advertised for a tool, with the `dryRun` argument added when it supports dry runs.
+   */
+  static inputSchema(definition: ToolDefinition): Tool['inputSchema'] {
+    if (!definition.dryRun) {
+      return definition.inputSchema;
+    }
+    return {
+      ...definition.inputSchema,
+      properties: { ...definition.inputSchema.properties, dryRun: dryRunProperty },
+    };
+  }
+
+  /**
+   * The output schema advertised for a tool, also accepting a preview when it supports dry runs.
+   */
+  static outputSchema(definition: ToolDefinition): Tool['outputSchema'] {
+    const schema = definition.output?.schema;
+    if (!schema || !definition.dryRun) {
+      return schema;
+    }
+    return { type: 'object', anyOf: [schema, dryRunPreviewSchema] };
+  }
+}
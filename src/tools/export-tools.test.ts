@@ -0,0 +1,143 @@
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { ExportJob } from './export-tools';
+
+describe('export tools', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('spline_export_scene starts a pending job', async () => {
+    const result = await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+
+    expect(result.structuredContent).toMatchObject({ sceneId: MOCK_SCENE_ID, status: 'pending', progress: 0 });
+  });
+
+  it('spline_export_scene rejects an unknown format', async () => {
+    await expect(harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'usdz' }))
+      .rejects.toMatchObject({ code: -32602, message: expect.stringContaining('format') });
+  });
+
+  it('spline_get_export_status reports progress', async () => {
+    const started = await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+    const { id } = structured<ExportJob>(started);
+    const result = await harness.callTool('spline_get_export_status', { jobId: id });
+
+    expect(result.structuredContent).toMatchObject({ id, status: expect.stringMatching(/pending|processing/) });
+  });
+
+  it('spline_get_export_status reports an unknown job as not found', async () => {
+    const result = await harness.callTool('spline_get_export_status', { jobId: '00000000-0000-4000-8000-000000000000' });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+
+  it('spline_cancel_export cancels a running job', async () => {
+    const started = await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+    const { id } = structured<ExportJob>(started);
+    const result = await harness.callTool('spline_cancel_export', { jobId: id });
+    const status = await harness.callTool('spline_get_export_status', { jobId: id });
+
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(status.structuredContent).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('spline_export_and_wait polls until the job completes', async () => {
+    const result = await harness.callTool('spline_export_and_wait', { sceneId: MOCK_SCENE_ID, format: 'obj' });
+
+    expect(result.structuredContent).toMatchObject({
+      status: 'completed',
+      progress: 100,
+      downloadUrl: expect.stringContaining('.obj'),
+    });
+  });
+
+  it('spline_export_and_wait cancels the job when aborted while a status request is in flight', async () => {
+    harness.mock.addFault({ status: 'timeout', method: 'GET', path: '/export/jobs' });
+    const controller = new AbortController();
+    const call = harness.client.callTool(
+      { name: 'spline_export_and_wait', arguments: { sceneId: MOCK_SCENE_ID, format: 'obj' } },
+      undefined,
+      { signal: controller.signal }
+    );
+    const statusRequested = () => harness.mock.getRequests().some(request => request.method === 'GET');
+    while (!statusRequested()) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    controller.abort();
+    await expect(call).rejects.toBeDefined();
+
+    // The status request would hang until SPLINE_TIMEOUT; the abort cancels the job well before
+    const deadline = Date.now() + 2000;
+    const cancelled = () => harness.mock.getRequests().some(request => request.method === 'DELETE');
+    while (!cancelled() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(cancelled()).toBe(true);
+  });
+
+  it('spline_export_and_wait reports an unknown scene as not found', async () => {
+    const result = await harness.callTool('spline_export_and_wait', {
+      sceneId: '00000000-0000-4000-8000-000000000000',
+      format: 'obj',
+    });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+
+  it('spline_get_export_history lists the jobs of a scene', async () => {
+    await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+    await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'obj' });
+    const result = await harness.callTool('spline_get_export_history', { sceneId: MOCK_SCENE_ID, limit: 1 });
+
+    expect(structured<{ jobs: ExportJob[] }>(result).jobs).toHaveLength(1);
+  });
+
+  it('spline_download_export returns a download link for a completed job', async () => {
+    const completed = await harness.callTool('spline_export_and_wait', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+    const { id } = structured<ExportJob>(completed);
+    const result = await harness.callTool('spline_download_export', { jobId: id });
+
+    expect(result.structuredContent).toMatchObject({ downloadUrl: expect.stringContaining(id), expiresAt: expect.any(String) });
+  });
+
+  it('spline_download_export maps a conflict for an unfinished job to a tool error', async () => {
+    const started = await harness.callTool('spline_export_scene', { sceneId: MOCK_SCENE_ID, format: 'gltf' });
+    const { id } = structured<ExportJob>(started);
+    const result = await harness.callTool('spline_download_export', { jobId: id });
+
+    expect(toolError(result)).toMatchObject({ code: 'SPLINE_API_ERROR', upstreamStatus: 409 });
+  });
+
+  it('spline_get_preview_image returns a link, and the image inline when asked', async () => {
+    const linkOnly = await harness.callTool('spline_get_preview_image', { sceneId: MOCK_SCENE_ID });
+    expect(linkOnly.structuredContent).toMatchObject({ imageUrl: expect.stringContaining('/files/previews/') });
+    expect(linkOnly.content.map(block => block.type)).toEqual(['text']);
+
+    const inline = await harness.callTool('spline_get_preview_image', {
+      sceneId: MOCK_SCENE_ID,
+      width: 400,
+      height: 300,
+      inline: true,
+      imageFormat: 'png',
+      maxDimension: 200,
+    });
+    expect(inline.structuredContent).toMatchObject({ image: { mimeType: 'image/png', width: 200, height: 150 } });
+    expect(inline.content[1]).toMatchObject({ type: 'image', mimeType: 'image/png', data: expect.any(String) });
+  });
+
+  it('spline_get_preview_image rejects dimensions out of range', async () => {
+    await expect(harness.callTool('spline_get_preview_image', { sceneId: MOCK_SCENE_ID, width: 10 }))
+      .rejects.toMatchObject({ code: -32602 });
+  });
+});
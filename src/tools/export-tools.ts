@@ -1,82 +1,53 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/config';
 import { Logger } from '../utils/logger';
-import { ErrorHandler, SplineApiError, NotFoundError, ValidationError } from '../utils/error-handler';
+import { SplineApiClient } from '../api/spline-api-client';
+import { ErrorHandler, SplineApiError, SplineError, ValidationError } from '../utils/error-handler';
 import { Validator } from '../utils/validation';
+import { Metrics } from '../monitoring/metrics';
 import { SplineExportOptions, ApiResponse } from '../types/spline';
+import { EncodedImage, ImageFormat, ImageOptions, ImageProcessor } from '../utils/image-processor';
 import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan } from './dry-run';
+import { describeExportJob, entityOutput, listOutput, acknowledgementOutput, exportJobSchema } from './output-schemas';
 
 export interface ExportJob {
   id: string;
   sceneId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   downloadUrl?: string;
   error?: string;
+  /** Options the export was created with */
+  options?: SplineExportOptions;
   createdAt: Date;
   completedAt?: Date;
 }
 
-export class SplineExportManager {
-  private api: AxiosInstance;
-
-  constructor() {
-    this.api = axios.create({
-      baseURL: `${config.spline.apiBaseUrl}/${config.spline.apiVersion}`,
-      timeout: config.spline.timeout,
-      headers: {
-        'Authorization': `Bearer ${config.spline.apiKey}`,
-        'Content-Type': 'application/json',
-        'User-Agent': 'Spline-MCP-Server/1.0.0',
-      },
-    });
+export interface PreviewImage {
+  imageUrl: string;
+  /** The downloaded image, present when the preview was requested inline */
+  image?: EncodedImage;
+}
 
-    this.setupInterceptors();
-  }
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
 
-  private setupInterceptors() {
-    this.api.interceptors.request.use(
-      (config) => {
-        const requestId = uuidv4();
-        config.headers['X-Request-ID'] = requestId;
-        Logger.debug('Spline Export API request', { 
-          method: config.method,
-          url: config.url,
-          requestId 
-        });
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-
-    this.api.interceptors.response.use(
-      (response) => {
-        Logger.debug('Spline Export API response', {
-          status: response.status,
-          requestId: response.config.headers['X-Request-ID'],
-        });
-        return response;
-      },
-      (error) => {
-        const requestId = error.config?.headers?.['X-Request-ID'];
-        Logger.error('Spline Export API error', {
-          status: error.response?.status,
-          message: error.response?.data?.message || error.message,
-          requestId,
-        });
-        
-        if (error.response?.status === 404) {
-          throw new NotFoundError('Export job or scene');
-        } else if (error.response?.status >= 400 && error.response?.status < 500) {
-          throw new SplineApiError(error.response.data?.message || 'Client error', error.response.status);
-        } else if (error.response?.status >= 500) {
-          throw new SplineApiError('Server error', error.response.status);
-        }
-        
-        throw new SplineApiError(error.message);
-      }
-    );
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+export class SplineExportManager {
+  private api: SplineApiClient;
+
+  constructor(api: SplineApiClient = SplineApiClient.shared()) {
+    this.api = api.withDefaults({ resourceName: 'Export job or scene' });
   }
 
   async exportScene(sceneId: string, options: SplineExportOptions): Promise<ApiResponse<ExportJob>> {
@@ -85,21 +56,13 @@ export class SplineExportManager {
         throw new ValidationError('Invalid scene ID format');
       }
 
-      // Validate export options
-      const validatedOptions = Validator.validate(Validator.exportOptionsSchema, options);
+      const validatedOptions = this.validateExportOptions(options);
 
-      // Additional validation for specific formats
-      if (validatedOptions.format === 'image' || validatedOptions.format === 'video') {
-        if (!validatedOptions.width || !validatedOptions.height) {
-          throw new ValidationError('Width and height are required for image and video exports');
-        }
-      }
-
-      if (validatedOptions.format === 'video' && !validatedOptions.fps) {
-        validatedOptions.fps = 30; // Default FPS
-      }
+      const response = await this.api.post(`/scenes/${sceneId}/export`, validatedOptions, {
+        timeout: config.spline.exportTimeout,
+      });
 
-      const response = await this.api.post(`/scenes/${sceneId}/export`, validatedOptions);
+      Metrics.recordExportJobState(response.data.id, response.data.status ?? 'pending');
 
       Logger.info('Export job created', { 
         sceneId, 
@@ -116,13 +79,15 @@ export class SplineExportManager {
     });
   }
 
-  async getExportStatus(jobId: string): Promise<ApiResponse<ExportJob>> {
+  async getExportStatus(jobId: string, signal?: AbortSignal): Promise<ApiResponse<ExportJob>> {
     return ErrorHandler.handleAsync(async () => {
       if (!Validator.isValidUUID(jobId)) {
         throw new ValidationError('Invalid job ID format');
       }
 
-      const response = await this.api.get(`/export/jobs/${jobId}`);
+      const response = await this.api.get(`/export/jobs/${jobId}`, { signal });
+
+      Metrics.recordExportJobState(jobId, response.data.status);
 
       return {
         success: true,
@@ -141,6 +106,8 @@ export class SplineExportManager {
 
       await this.api.delete(`/export/jobs/${jobId}`);
 
+      Metrics.recordExportJobState(jobId, 'cancelled');
+
       Logger.info('Export job cancelled', { jobId });
 
       return {
@@ -151,6 +118,103 @@ export class SplineExportManager {
     });
   }
 
+  async previewExportScene(sceneId: string, options: SplineExportOptions): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      if (!Validator.isValidUUID(sceneId)) {
+        throw new ValidationError('Invalid scene ID format');
+      }
+      const validatedOptions = this.validateExportOptions(options);
+
+      const response = await this.api.get(`/scenes/${sceneId}`);
+      const scene = response.data;
+
+      return DryRun.plan(
+        `Start a ${validatedOptions.quality} quality ${validatedOptions.format} export of scene ${scene.name} (${scene.id}), version ${scene.version}`,
+        null,
+        { sceneId, status: 'pending', ...validatedOptions }
+      );
+    });
+  }
+
+  async previewCancelExport(jobId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const job = (await this.getExportStatus(jobId)).data!;
+
+      return DryRun.plan(
+        `Cancel export job ${job.id} of scene ${job.sceneId}, currently ${job.status}`,
+        job,
+        { ...job, status: 'cancelled' }
+      );
+    });
+  }
+
+  /**
+   * Polls an export job with backoff until it completes, fails or is cancelled. Progress updates are passed to
+   * `onProgress`; aborting `signal` cancels the job on Spline's side.
+   */
+  async waitForExport(
+    jobId: string,
+    options: { signal?: AbortSignal; onProgress?: (job: ExportJob) => Promise<void> } = {}
+  ): Promise<ApiResponse<ExportJob>> {
+    const { pollIntervalMs, maxPollIntervalMs, timeoutMs } = config.spline.exportWait;
+    const deadline = Date.now() + timeoutMs;
+    let interval = pollIntervalMs;
+    let lastProgress: number | undefined;
+
+    while (true) {
+      if (options.signal?.aborted) {
+        await this.cancelAbandonedExport(jobId);
+        throw new SplineError(`Export job ${jobId} was cancelled`, 499, 'CANCELLED');
+      }
+
+      let status: ApiResponse<ExportJob>;
+      try {
+        status = await this.getExportStatus(jobId, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted) {
+          // Cancel the job like an abort between polls does
+          continue;
+        }
+        throw error;
+      }
+      const job = status.data!;
+
+      if (job.progress !== lastProgress) {
+        lastProgress = job.progress;
+        await options.onProgress?.(job);
+      }
+
+      if (job.status === 'completed') {
+        Logger.info('Export job completed', { jobId, sceneId: job.sceneId });
+        return status;
+      }
+      if (job.status === 'cancelled') {
+        throw new SplineError(`Export job ${jobId} was cancelled`, 499, 'CANCELLED');
+      }
+      if (job.status === 'failed') {
+        throw new SplineApiError(`Export job ${jobId} failed: ${job.error ?? 'unknown error'}`, 502, { retryable: false });
+      }
+      if (Date.now() + interval > deadline) {
+        throw new SplineApiError(
+          `Export job ${jobId} did not finish within ${Math.round(timeoutMs / 1000)}s, check it with spline_get_export_status`,
+          504,
+          { retryable: true }
+        );
+      }
+
+      await sleep(interval, options.signal);
+      interval = Math.min(Math.round(interval * 1.5), maxPollIntervalMs);
+    }
+  }
+
+  private async cancelAbandonedExport(jobId: string) {
+    try {
+      await this.cancelExport(jobId);
+    } catch (error) {
+      Logger.warn('Failed to cancel abandoned export job', { jobId, error: (error as Error).message });
+    }
+  }
+
   async getExportHistory(sceneId: string, limit: number = 20): Promise<ApiResponse<ExportJob[]>> {
     return ErrorHandler.handleAsync(async () => {
       if (!Validator.isValidUUID(sceneId)) {
@@ -180,7 +244,9 @@ export class SplineExportManager {
         throw new ValidationError('Invalid job ID format');
       }
 
-      const response = await this.api.post(`/export/jobs/${jobId}/download`);
+      const response = await this.api.post(`/export/jobs/${jobId}/download`, undefined, {
+        timeout: config.spline.exportTimeout,
+      });
 
       return {
         success: true,
@@ -194,7 +260,16 @@ export class SplineExportManager {
     });
   }
 
-  async getPreviewImage(sceneId: string, width: number = 800, height: number = 600): Promise<ApiResponse<{ imageUrl: string }>> {
+  /**
+   * Generates a preview of the scene. With `inline` options the image is also downloaded and re-encoded
+   * so it can be returned to the client directly instead of as a URL.
+   */
+  async getPreviewImage(
+    sceneId: string,
+    width: number = 800,
+    height: number = 600,
+    inline?: ImageOptions
+  ): Promise<ApiResponse<PreviewImage>> {
     return ErrorHandler.handleAsync(async () => {
       if (!Validator.isValidUUID(sceneId)) {
         throw new ValidationError('Invalid scene ID format');
@@ -208,73 +283,136 @@ export class SplineExportManager {
         params: { width, height }
       });
 
+      const imageUrl: string = response.data.imageUrl;
+      const image = inline ? await ImageProcessor.downloadAndEncode(imageUrl, inline) : undefined;
+
       return {
         success: true,
         data: {
-          imageUrl: response.data.imageUrl,
+          imageUrl,
+          image,
         },
         timestamp: new Date(),
         requestId: response.config.headers['X-Request-ID'] as string,
       };
     });
   }
+
+  private validateExportOptions(options: SplineExportOptions): SplineExportOptions {
+    const validatedOptions = Validator.validate<SplineExportOptions>(Validator.exportOptionsSchema, options);
+
+    // Additional validation for specific formats
+    if (validatedOptions.format === 'image' || validatedOptions.format === 'video') {
+      if (!validatedOptions.width || !validatedOptions.height) {
+        throw new ValidationError('Width and height are required for image and video exports');
+      }
+    }
+
+    if (validatedOptions.format === 'video' && !validatedOptions.fps) {
+      validatedOptions.fps = 30; // Default FPS
+    }
+    return validatedOptions;
+  }
 }
 
-export const exportTools: Tool[] = [
-  {
-    name: "spline_export_scene",
-    description: "Export a Spline scene to various formats (GLTF, OBJ, FBX, image, video)",
-    inputSchema: {
-      type: "object",
-      properties: {
-        sceneId: {
-          type: "string",
-          description: "UUID of the scene to export",
-          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
-        },
-        format: {
-          type: "string",
-          enum: ["gltf", "obj", "fbx", "image", "video"],
-          description: "Export format"
-        },
-        quality: {
-          type: "string",
-          enum: ["low", "medium", "high"],
-          description: "Export quality",
-          default: "medium"
-        },
-        width: {
-          type: "number",
-          description: "Width in pixels (required for image/video formats)",
-          minimum: 100,
-          maximum: 4096
-        },
-        height: {
-          type: "number",
-          description: "Height in pixels (required for image/video formats)",
-          minimum: 100,
-          maximum: 4096
-        },
-        fps: {
-          type: "number",
-          description: "Frames per second (for video format)",
-          minimum: 1,
-          maximum: 60,
-          default: 30
-        },
-        duration: {
-          type: "number",
-          description: "Duration in seconds (for video format)",
-          minimum: 1,
-          maximum: 300
-        }
-      },
-      required: ["sceneId", "format"]
+const exportSceneInputSchema: ToolDefinition['inputSchema'] = {
+  type: "object",
+  properties: {
+    sceneId: {
+      type: "string",
+      description: "UUID of the scene to export",
+      pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+    },
+    format: {
+      type: "string",
+      enum: ["gltf", "obj", "fbx", "image", "video"],
+      description: "Export format"
+    },
+    quality: {
+      type: "string",
+      enum: ["low", "medium", "high"],
+      description: "Export quality",
+      default: "medium"
+    },
+    width: {
+      type: "number",
+      description: "Width in pixels (required for image/video formats)",
+      minimum: 100,
+      maximum: 4096
+    },
+    height: {
+      type: "number",
+      description: "Height in pixels (required for image/video formats)",
+      minimum: 100,
+      maximum: 4096
+    },
+    fps: {
+      type: "number",
+      description: "Frames per second (for video format)",
+      minimum: 1,
+      maximum: 60,
+      default: 30
+    },
+    duration: {
+      type: "number",
+      description: "Duration in seconds (for video format)",
+      minimum: 1,
+      maximum: 300
     }
   },
-  {
+  required: ["sceneId", "format"]
+};
+
+type ExportSceneArgs = Omit<SplineExportOptions, 'quality'> & {
+  sceneId: string;
+  quality?: SplineExportOptions['quality'];
+};
+
+function toExportOptions(args: ExportSceneArgs): SplineExportOptions {
+  return {
+    format: args.format,
+    quality: args.quality || 'medium',
+    width: args.width,
+    height: args.height,
+    fps: args.fps,
+    duration: args.duration,
+  };
+}
+
+export const exportTools: ToolDefinition[] = [
+  defineTool<ExportSceneArgs>({
+    name: "spline_export_scene",
+    description: "Export a Spline scene to various formats (GLTF, OBJ, FBX, image, video)",
+    kind: "mutating",
+    inputSchema: exportSceneInputSchema,
+    output: entityOutput<ExportJob>(exportJobSchema, (job) => `Started export job ${job.id} for scene ${job.sceneId} (${job.status})`),
+    handler: (args, { managers }) => managers.export.exportScene(args.sceneId, toExportOptions(args)),
+    dryRun: (args, { managers }) => managers.export.previewExportScene(args.sceneId, toExportOptions(args)),
+    // A new job has no prior state, and the dry run only reads the scene to describe it
+    auditBefore: async () => null
+  }),
+  defineTool<ExportSceneArgs>({
+    name: "spline_export_and_wait",
+    description: "Export a Spline scene and wait for the export to finish, reporting progress. Returns the completed job with its download URL",
+    kind: "mutating",
+    inputSchema: exportSceneInputSchema,
+    output: entityOutput<ExportJob>(exportJobSchema, (job) => `Export job ${job.id} completed, download: ${job.downloadUrl}`),
+    handler: async (args, { managers, signal, reportProgress }) => {
+      const job = await managers.export.exportScene(args.sceneId, toExportOptions(args));
+
+      return managers.export.waitForExport(job.data!.id, {
+        signal,
+        onProgress: (update) => reportProgress(update.progress ?? 0, 100, `Export ${update.status}`),
+      });
+    },
+    dryRun: (args, { managers }) => managers.export.previewExportScene(args.sceneId, toExportOptions(args)),
+    // A new job has no prior state, and the dry run only reads the scene to describe it
+    auditBefore: async () => null
+  }),
+  defineTool<{ jobId: string }>({
     name: "spline_get_export_status",
     description: "Get the status of an export job",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -285,11 +423,14 @@ export const exportTools: Tool[] = [
         }
       },
       required: ["jobId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<ExportJob>(exportJobSchema, (job) => describeExportJob(job) + (job.downloadUrl ? `, download: ${job.downloadUrl}` : '') + (job.error ? `, error: ${job.error}` : '')),
+    handler: (args, { managers }) => managers.export.getExportStatus(args.jobId)
+  }),
+  defineTool<{ jobId: string }>({
     name: "spline_cancel_export",
     description: "Cancel a pending or processing export job",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -300,11 +441,15 @@ export const exportTools: Tool[] = [
         }
       },
       required: ["jobId"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Cancelled export job ${args.jobId}`),
+    handler: (args, { managers }) => managers.export.cancelExport(args.jobId),
+    dryRun: (args, { managers }) => managers.export.previewCancelExport(args.jobId)
+  }),
+  defineTool<{ sceneId: string; limit?: number }>({
     name: "spline_get_export_history",
     description: "Get the export history for a scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -322,11 +467,14 @@ export const exportTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: listOutput<ExportJob>("jobs", exportJobSchema, describeExportJob),
+    handler: (args, { managers }) => managers.export.getExportHistory(args.sceneId, args.limit)
+  }),
+  defineTool<{ jobId: string }>({
     name: "spline_download_export",
     description: "Get a download URL for a completed export",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -337,11 +485,21 @@ export const exportTools: Tool[] = [
         }
       },
       required: ["jobId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<{ downloadUrl: string; expiresAt: string }>({
+      type: "object",
+      properties: {
+        downloadUrl: { type: "string" },
+        expiresAt: { type: "string", description: "ISO 8601 timestamp" }
+      },
+      required: ["downloadUrl"]
+    }, (download) => `Download ${download.downloadUrl} (expires ${download.expiresAt})`),
+    handler: (args, { managers }) => managers.export.downloadExport(args.jobId)
+  }),
+  defineTool<{ sceneId: string; width?: number; height?: number; inline?: boolean; imageFormat: ImageFormat; maxDimension: number; quality: number }>({
     name: "spline_get_preview_image",
     description: "Generate a preview image of a Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -363,9 +521,74 @@ export const exportTools: Tool[] = [
           minimum: 100,
           maximum: 4096,
           default: 600
+        },
+        inline: {
+          type: "boolean",
+          description: "Also return the image itself as image content, so it can be inspected directly",
+          default: false
+        },
+        imageFormat: {
+          type: "string",
+          enum: ["png", "jpeg"],
+          description: "Encoding of the inline image; jpeg keeps payloads small, png is lossless",
+          default: "jpeg"
+        },
+        maxDimension: {
+          type: "number",
+          description: "Longest side of the inline image in pixels, larger previews are scaled down",
+          minimum: 64,
+          maximum: 2048,
+          default: 768
+        },
+        quality: {
+          type: "number",
+          description: "JPEG quality of the inline image",
+          minimum: 1,
+          maximum: 100,
+          default: 80
         }
       },
       required: ["sceneId"]
-    }
-  }
+    },
+    output: {
+      schema: {
+        type: "object",
+        properties: {
+          imageUrl: { type: "string" },
+          image: {
+            type: "object",
+            description: "Details of the inline image; the image itself is sent as image content",
+            properties: {
+              mimeType: { type: "string" },
+              width: { type: "number" },
+              height: { type: "number" },
+              sizeBytes: { type: "number" }
+            }
+          }
+        },
+        required: ["imageUrl"]
+      },
+      toStructured: (preview: PreviewImage) => ({
+        imageUrl: preview.imageUrl,
+        ...(preview.image && {
+          image: {
+            mimeType: preview.image.mimeType,
+            width: preview.image.width,
+            height: preview.image.height,
+            sizeBytes: preview.image.sizeBytes
+          }
+        })
+      }),
+      summarize: (preview: { imageUrl: string; image?: Omit<EncodedImage, 'data'> }) => preview.image
+        ? `Preview image ${preview.image.width}x${preview.image.height} ${preview.image.mimeType} (${Math.ceil(preview.image.sizeBytes / 1024)}KB): ${preview.imageUrl}`
+        : `Preview image: ${preview.imageUrl}`,
+      images: (preview: PreviewImage) => preview.image ? [preview.image] : []
+    },
+    handler: (args, { managers }) => managers.export.getPreviewImage(
+      args.sceneId,
+      args.width || 800,
+      args.height || 600,
+      args.inline ? { format: args.imageFormat, maxDimension: args.maxDimension, quality: args.quality } : undefined
+    )
+  })
 ];
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { MOCK_SCENE_ID, resultText, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { MultiViewResult } from './multi-view-tools';
+
+describe('multi-view tools', () => {
+  let harness: TestHarness;
+
+  const camera = () => harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.type === 'camera')!;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('spline_render_views renders presets into one contact sheet and restores the camera', async () => {
+    const before = { ...camera().position };
+    const result = await harness.callTool('spline_render_views', {
+      sceneId: MOCK_SCENE_ID,
+      views: ['front', 'top'],
+      width: 160,
+      height: 120,
+    });
+    const rendered = structured<MultiViewResult>(result);
+
+    expect(rendered.layout).toBe('contact_sheet');
+    expect(rendered.views.map(view => view.label)).toEqual(['front', 'top']);
+    expect(result.content.filter(block => block.type === 'image')).toHaveLength(1);
+    expect(camera().position).toEqual(before);
+  });
+
+  it('spline_render_views reports a camera it could not restore', async () => {
+    // The move to the viewpoint goes through, moving the camera back fails
+    harness.mock.addFault({ status: 400, method: 'PATCH', path: '/transform', after: 1 });
+    const result = await harness.callTool('spline_render_views', { sceneId: MOCK_SCENE_ID, views: ['front'], width: 160, height: 120 });
+
+    expect(structured<MultiViewResult>(result).cameraRestored).toBe(false);
+    expect(resultText(result)).toContain('could not be restored');
+  });
+
+  it('spline_render_views keeps the render error when restoring the camera also fails', async () => {
+    harness.mock.addFault({ status: 404, path: '/preview' });
+    harness.mock.addFault({ status: 400, method: 'PATCH', path: '/transform', after: 1 });
+    const result = await harness.callTool('spline_render_views', { sceneId: MOCK_SCENE_ID, views: ['front'], width: 160, height: 120 });
+
+    expect(toolError(result)).toMatchObject({ code: 'NOT_FOUND', error: expect.stringContaining('could not be restored') });
+  });
+
+  it('spline_render_views returns one image per turntable step', async () => {
+    const result = await harness.callTool('spline_render_views', {
+      sceneId: MOCK_SCENE_ID,
+      turntableSteps: 3,
+      width: 160,
+      height: 120,
+      layout: 'images',
+    });
+
+    expect(structured<MultiViewResult>(result).views).toHaveLength(3);
+    expect(result.content.filter(block => block.type === 'image')).toHaveLength(3);
+  });
+
+  it('spline_render_views requires exactly one of views, turntableSteps or cameras', async () => {
+    await expect(harness.callTool('spline_render_views', { sceneId: MOCK_SCENE_ID }))
+      .rejects.toMatchObject({ code: -32602 });
+    await expect(harness.callTool('spline_render_views', { sceneId: MOCK_SCENE_ID, views: ['front'], turntableSteps: 4 }))
+      .rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_render_views rejects an unknown preset', async () => {
+    await expect(harness.callTool('spline_render_views', { sceneId: MOCK_SCENE_ID, views: ['left'] }))
+      .rejects.toMatchObject({ code: -32602 });
+  });
+});
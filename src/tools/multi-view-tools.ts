@@ -0,0 +1,516 @@
+import { Logger } from '../utils/logger';
+import { ErrorHandler, SplineError, ValidationError } from '../utils/error-handler';
+import { EncodedImage, ImageFormat, ImageProcessor, LabelledImage } from '../utils/image-processor';
+import { ApiResponse, SplineObject, Vector3 } from '../types/spline';
+import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan } from './dry-run';
+import { SplineExportManager } from './export-tools';
+import { SplineObjectManager } from './object-manipulation';
+import { ToolOutput } from './output-schemas';
+
+export type ViewPreset = 'front' | 'back' | 'side' | 'top' | 'iso';
+
+export interface MultiViewOptions {
+  /** Exactly one of `views`, `turntableSteps` or `cameras` selects the viewpoints */
+  views?: ViewPreset[];
+  turntableSteps?: number;
+  /** Names or IDs of camera objects whose viewpoints to render */
+  cameras?: string[];
+  /** Camera object moved to each viewpoint; defaults to the first camera in the scene */
+  cameraId?: string;
+  /** Height of the turntable orbit above the target, in degrees */
+  elevationDegrees?: number;
+  /** Orbit radius; derived from the scene bounds when omitted */
+  distance?: number;
+  /** Point the orbit looks at; defaults to the centre of the scene bounds */
+  target?: Vector3;
+  width: number;
+  height: number;
+  layout: 'contact_sheet' | 'images';
+  format: ImageFormat;
+  maxDimension: number;
+  quality?: number;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number, label: string) => Promise<void>;
+}
+
+export interface RenderedView {
+  label: string;
+  position: Vector3;
+  rotation: Vector3;
+  imageUrl: string;
+  image?: EncodedImage;
+}
+
+export interface MultiViewResult {
+  sceneId: string;
+  cameraId: string;
+  layout: MultiViewOptions['layout'];
+  views: RenderedView[];
+  sheet?: EncodedImage & { columns: number; rows: number };
+  /** False when moving the camera back failed, leaving it at the last viewpoint */
+  cameraRestored: boolean;
+}
+
+interface Viewpoint {
+  label: string;
+  position: Vector3;
+  rotation: Vector3;
+}
+
+const VIEW_PRESETS: Record<ViewPreset, { azimuth: number; elevation: number }> = {
+  front: { azimuth: 0, elevation: 0 },
+  back: { azimuth: Math.PI, elevation: 0 },
+  side: { azimuth: Math.PI / 2, elevation: 0 },
+  top: { azimuth: 0, elevation: Math.PI / 2 },
+  iso: { azimuth: Math.PI / 4, elevation: Math.atan(1 / Math.SQRT2) },
+};
+
+// Keeps single objects and tightly packed scenes from filling the whole frame
+const MIN_ORBIT_DISTANCE = 1000;
+const ORBIT_DISTANCE_FACTOR = 2.5;
+const BOUNDS_OBJECT_TYPES = new Set<SplineObject['type']>(['mesh', 'group', 'text', 'spline']);
+
+/**
+ * Rotation that points a camera at `-offset`, i.e. from `target + offset` back at the target.
+ * Spline follows three.js: cameras look down -Z and Euler angles are applied in XYZ order.
+ */
+function lookAtRotation(azimuth: number, elevation: number): Vector3 {
+  // Components of Ry(azimuth) * Rx(-elevation), converted to XYZ Euler angles
+  const m11 = Math.cos(azimuth);
+  const m12 = -Math.sin(azimuth) * Math.sin(elevation);
+  const m13 = Math.sin(azimuth) * Math.cos(elevation);
+  const m22 = Math.cos(elevation);
+  const m23 = Math.sin(elevation);
+  const m32 = -Math.cos(azimuth) * Math.sin(elevation);
+  const m33 = Math.cos(azimuth) * Math.cos(elevation);
+
+  const y = Math.asin(Math.max(-1, Math.min(1, m13)));
+  if (Math.abs(m13) < 0.9999999) {
+    return { x: Math.atan2(-m23, m33), y, z: Math.atan2(-m12, m11) };
+  }
+  return { x: Math.atan2(m32, m22), y, z: 0 };
+}
+
+function round(vector: Vector3): Vector3 {
+  return {
+    x: Math.round(vector.x * 1000) / 1000,
+    y: Math.round(vector.y * 1000) / 1000,
+    z: Math.round(vector.z * 1000) / 1000,
+  };
+}
+
+export class SplineMultiViewManager {
+  constructor(
+    private exportManager: SplineExportManager,
+    private objectManager: SplineObjectManager
+  ) {}
+
+  /**
+   * Renders the scene from several viewpoints by moving a camera to each one in turn and taking a preview.
+   * The camera's original transform is restored afterwards, also when rendering fails or is cancelled.
+   * A failed restore never replaces the render's own error; it is noted on that error or in the result.
+   */
+  async renderViews(sceneId: string, options: MultiViewOptions): Promise<ApiResponse<MultiViewResult>> {
+    return ErrorHandler.handleAsync(async () => {
+      this.validateViewSelectors(options);
+
+      const objects = (await this.objectManager.getSceneObjects(sceneId)).data ?? [];
+      const camera = this.findRenderCamera(objects, options.cameraId);
+      const viewpoints = this.planViewpoints(objects, options);
+      const original = { position: camera.position, rotation: camera.rotation };
+
+      const views: RenderedView[] = [];
+      const rendered: LabelledImage[] = [];
+
+      try {
+        for (const viewpoint of viewpoints) {
+          if (options.signal?.aborted) {
+            throw new SplineError('Rendering views was cancelled', 499, 'CANCELLED');
+          }
+
+          await this.objectManager.updateObjectTransform(sceneId, camera.id, {
+            position: viewpoint.position,
+            rotation: viewpoint.rotation,
+          });
+          const preview = (await this.exportManager.getPreviewImage(sceneId, options.width, options.height)).data!;
+          const image = await ImageProcessor.read(await ImageProcessor.download(preview.imageUrl));
+
+          views.push({ ...viewpoint, imageUrl: preview.imageUrl });
+          rendered.push({ label: viewpoint.label, image });
+          await options.onProgress?.(views.length, viewpoints.length, viewpoint.label);
+        }
+      } catch (error) {
+        if (!await this.restoreCamera(sceneId, camera.id, original) && error instanceof Error) {
+          error.message += `; camera ${camera.id} could not be restored to its original transform`;
+        }
+        throw error;
+      }
+      const cameraRestored = await this.restoreCamera(sceneId, camera.id, original);
+
+      Logger.info('Scene views rendered', { sceneId, cameraId: camera.id, views: views.length });
+
+      const encodeOptions = { format: options.format, maxDimension: options.maxDimension, quality: options.quality };
+      let sheet: MultiViewResult['sheet'];
+
+      if (options.layout === 'contact_sheet') {
+        const columns = Math.ceil(Math.sqrt(rendered.length));
+        const image = await ImageProcessor.contactSheet(rendered, options.maxDimension);
+        sheet = { ...await ImageProcessor.encode(image, encodeOptions), columns, rows: Math.ceil(rendered.length / columns) };
+      } else {
+        for (const [index, view] of views.entries()) {
+          view.image = await ImageProcessor.encode(rendered[index].image, encodeOptions);
+        }
+      }
+
+      return {
+        success: true,
+        data: { sceneId, cameraId: camera.id, layout: options.layout, views, sheet, cameraRestored },
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      };
+    });
+  }
+
+  /**
+   * Plans the viewpoints without moving the camera, which ends up where it started either way.
+   */
+  async previewRenderViews(
+    sceneId: string,
+    options: Omit<MultiViewOptions, 'signal' | 'onProgress'>
+  ): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      this.validateViewSelectors(options);
+
+      const objects = (await this.objectManager.getSceneObjects(sceneId)).data ?? [];
+      const camera = this.findRenderCamera(objects, options.cameraId);
+      const viewpoints = this.planViewpoints(objects, options);
+
+      return DryRun.plan(
+        `Move camera ${camera.name} (${camera.id}) through ${viewpoints.length} viewpoint(s) ` +
+          `(${viewpoints.map(viewpoint => viewpoint.label).join(', ')}), render ${options.width}x${options.height} previews, then restore it`,
+        camera,
+        camera
+      );
+    });
+  }
+
+  /**
+   * Moves the camera back to where it started, logging rather than throwing when that fails.
+   */
+  private async restoreCamera(sceneId: string, cameraId: string, original: Pick<SplineObject, 'position' | 'rotation'>): Promise<boolean> {
+    try {
+      await this.objectManager.updateObjectTransform(sceneId, cameraId, original);
+      return true;
+    } catch (error) {
+      Logger.error('Could not restore the camera after rendering views', { sceneId, cameraId, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  private validateViewSelectors(options: Pick<MultiViewOptions, 'views' | 'turntableSteps' | 'cameras'>) {
+    const selectors = [options.views, options.turntableSteps, options.cameras].filter(selector => selector !== undefined);
+    if (selectors.length !== 1) {
+      throw new ValidationError('Specify exactly one of views, turntableSteps or cameras');
+    }
+  }
+
+  private findRenderCamera(objects: SplineObject[], cameraId?: string): SplineObject {
+    const cameras = objects.filter(object => object.type === 'camera');
+    const camera = cameraId ? cameras.find(candidate => candidate.id === cameraId) : cameras[0];
+
+    if (!camera) {
+      throw new ValidationError(cameraId ? `Camera ${cameraId} not found in scene` : 'Scene has no camera to render from');
+    }
+    return camera;
+  }
+
+  private planViewpoints(objects: SplineObject[], options: MultiViewOptions): Viewpoint[] {
+    if (options.cameras) {
+      return options.cameras.map(selector => {
+        const camera = objects.find(object => object.type === 'camera' && (object.id === selector || object.name === selector));
+        if (!camera) {
+          throw new ValidationError(`Camera ${selector} not found in scene`);
+        }
+        return { label: camera.name, position: camera.position, rotation: camera.rotation };
+      });
+    }
+
+    const bounds = this.sceneBounds(objects);
+    const target = options.target ?? bounds.center;
+    const distance = options.distance ?? Math.max(bounds.radius * ORBIT_DISTANCE_FACTOR, MIN_ORBIT_DISTANCE);
+
+    const orbit = (label: string, azimuth: number, elevation: number): Viewpoint => ({
+      label,
+      position: round({
+        x: target.x + distance * Math.cos(elevation) * Math.sin(azimuth),
+        y: target.y + distance * Math.sin(elevation),
+        z: target.z + distance * Math.cos(elevation) * Math.cos(azimuth),
+      }),
+      rotation: round(lookAtRotation(azimuth, elevation)),
+    });
+
+    if (options.views) {
+      return options.views.map(view => orbit(view, VIEW_PRESETS[view].azimuth, VIEW_PRESETS[view].elevation));
+    }
+
+    const steps = options.turntableSteps!;
+    const elevation = ((options.elevationDegrees ?? 15) * Math.PI) / 180;
+    return Array.from({ length: steps }, (_, step) => {
+      const degrees = Math.round((360 / steps) * step);
+      return orbit(`${degrees}°`, (degrees * Math.PI) / 180, elevation);
+    });
+  }
+
+  /**
+   * Bounding sphere of the visible geometry, from object positions only since the API does not expose mesh sizes.
+   */
+  private sceneBounds(objects: SplineObject[]): { center: Vector3; radius: number } {
+    const positions = objects
+      .filter(object => BOUNDS_OBJECT_TYPES.has(object.type) && object.visible !== false && object.position)
+      .map(object => object.position);
+
+    if (positions.length === 0) {
+      return { center: { x: 0, y: 0, z: 0 }, radius: 0 };
+    }
+
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const position of positions) {
+      for (const axis of ['x', 'y', 'z'] as const) {
+        min[axis] = Math.min(min[axis], position[axis]);
+        max[axis] = Math.max(max[axis], position[axis]);
+      }
+    }
+
+    return {
+      center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+      radius: Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z) / 2,
+    };
+  }
+}
+
+const vector3Property = {
+  type: "object",
+  properties: {
+    x: { type: "number" },
+    y: { type: "number" },
+    z: { type: "number" }
+  },
+  required: ["x", "y", "z"]
+};
+
+const encodedImageProperty = {
+  type: "object",
+  properties: {
+    mimeType: { type: "string" },
+    width: { type: "number" },
+    height: { type: "number" },
+    sizeBytes: { type: "number" }
+  }
+};
+
+/** Structured content of a render: the images' details, without the image data */
+type RenderedViewsDetails = Omit<MultiViewResult, 'views' | 'sheet'> & {
+  views: Array<Omit<RenderedView, 'image'> & { image?: Omit<EncodedImage, 'data'> }>;
+  sheet?: Omit<NonNullable<MultiViewResult['sheet']>, 'data'>;
+};
+
+const multiViewOutput: ToolOutput<RenderedViewsDetails, MultiViewResult> = {
+  schema: {
+    type: "object",
+    properties: {
+      sceneId: { type: "string" },
+      cameraId: { type: "string", description: "Camera that was moved to each viewpoint and restored afterwards" },
+      layout: { type: "string", enum: ["contact_sheet", "images"] },
+      views: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            label: { type: "string" },
+            position: vector3Property,
+            rotation: { ...vector3Property, description: "Camera rotation in radians" },
+            imageUrl: { type: "string" },
+            image: encodedImageProperty
+          },
+          required: ["label", "imageUrl"]
+        }
+      },
+      sheet: {
+        ...encodedImageProperty,
+        properties: {
+          ...encodedImageProperty.properties,
+          columns: { type: "number" },
+          rows: { type: "number" }
+        }
+      },
+      cameraRestored: { type: "boolean", description: "False when the camera could not be moved back and was left at the last viewpoint" }
+    },
+    required: ["sceneId", "cameraId", "views", "cameraRestored"]
+  },
+  // The images themselves go out as image content, only their details stay in the structured content
+  toStructured: (result) => JSON.parse(JSON.stringify({
+    ...result,
+    views: result.views.map(({ image, ...view }) => ({
+      ...view,
+      image: image && { mimeType: image.mimeType, width: image.width, height: image.height, sizeBytes: image.sizeBytes },
+    })),
+    sheet: result.sheet && {
+      mimeType: result.sheet.mimeType,
+      width: result.sheet.width,
+      height: result.sheet.height,
+      sizeBytes: result.sheet.sizeBytes,
+      columns: result.sheet.columns,
+      rows: result.sheet.rows,
+    },
+  })),
+  summarize: (result) => [
+    result.layout === 'contact_sheet' && result.sheet
+      ? `Rendered ${result.views.length} views of scene ${result.sceneId} as a ${result.sheet.columns}x${result.sheet.rows} contact sheet, left to right and top to bottom:`
+      : `Rendered ${result.views.length} views of scene ${result.sceneId}, images in this order:`,
+    ...result.views.map(view =>
+      `- ${view.label}: camera at (${view.position.x}, ${view.position.y}, ${view.position.z})`),
+    ...(result.cameraRestored ? [] : [`Camera ${result.cameraId} could not be restored to its original transform and was left at the last viewpoint`]),
+  ].join('\n'),
+  images: (result) => result.sheet
+    ? [result.sheet]
+    : result.views.flatMap(view => view.image ? [view.image] : []),
+};
+
+type RenderViewsArgs = Omit<MultiViewOptions, 'format' | 'signal' | 'onProgress'> & {
+  sceneId: string;
+  imageFormat: ImageFormat;
+};
+
+export const multiViewTools: ToolDefinition[] = [
+  defineTool<RenderViewsArgs>({
+    name: "spline_render_views",
+    description: "Render a scene from several viewpoints (preset angles, a turntable orbit or named cameras) and return them as a contact sheet or separate images. Temporarily moves a camera to each viewpoint and restores it afterwards",
+    kind: "mutating",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: {
+          type: "string",
+          description: "UUID of the scene",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+        },
+        views: {
+          type: "array",
+          description: "Preset angles around the scene; use this, turntableSteps or cameras",
+          items: { type: "string", enum: ["front", "back", "side", "top", "iso"] },
+          minItems: 1,
+          uniqueItems: true
+        },
+        turntableSteps: {
+          type: "integer",
+          description: "Number of evenly spaced angles in a full orbit around the scene",
+          minimum: 2,
+          maximum: 36
+        },
+        cameras: {
+          type: "array",
+          description: "Names or IDs of camera objects in the scene whose viewpoints to render",
+          items: { type: "string" },
+          minItems: 1,
+          maxItems: 12
+        },
+        cameraId: {
+          type: "string",
+          description: "Camera object to move to each viewpoint (defaults to the first camera in the scene)"
+        },
+        elevationDegrees: {
+          type: "number",
+          description: "Height of the turntable orbit above the target in degrees",
+          minimum: -89,
+          maximum: 89,
+          default: 15
+        },
+        distance: {
+          type: "number",
+          description: "Distance of the camera from the target (derived from the scene bounds when omitted)",
+          exclusiveMinimum: 0
+        },
+        target: {
+          ...vector3Property,
+          description: "Point to orbit around (defaults to the centre of the scene's objects)"
+        },
+        width: {
+          type: "number",
+          description: "Width of each view in pixels",
+          minimum: 100,
+          maximum: 4096,
+          default: 512
+        },
+        height: {
+          type: "number",
+          description: "Height of each view in pixels",
+          minimum: 100,
+          maximum: 4096,
+          default: 512
+        },
+        layout: {
+          type: "string",
+          enum: ["contact_sheet", "images"],
+          description: "Return one labelled grid image or one image per view",
+          default: "contact_sheet"
+        },
+        imageFormat: {
+          type: "string",
+          enum: ["png", "jpeg"],
+          default: "jpeg"
+        },
+        maxDimension: {
+          type: "number",
+          description: "Longest side in pixels of the contact sheet, or of each image",
+          minimum: 64,
+          maximum: 4096,
+          default: 1024
+        },
+        quality: {
+          type: "number",
+          description: "JPEG quality",
+          minimum: 1,
+          maximum: 100,
+          default: 80
+        }
+      },
+      required: ["sceneId"]
+    },
+    output: multiViewOutput,
+    handler: (args, { managers, signal, reportProgress }) => managers.multiView.renderViews(args.sceneId, {
+      views: args.views,
+      turntableSteps: args.turntableSteps,
+      cameras: args.cameras,
+      cameraId: args.cameraId,
+      elevationDegrees: args.elevationDegrees,
+      distance: args.distance,
+      target: args.target,
+      width: args.width,
+      height: args.height,
+      layout: args.layout,
+      format: args.imageFormat,
+      maxDimension: args.maxDimension,
+      quality: args.quality,
+      signal,
+      onProgress: (completed, total, label) => reportProgress(completed, total, `Rendered ${label}`),
+    }),
+    dryRun: (args, { managers }) => managers.multiView.previewRenderViews(args.sceneId, {
+      views: args.views,
+      turntableSteps: args.turntableSteps,
+      cameras: args.cameras,
+      cameraId: args.cameraId,
+      elevationDegrees: args.elevationDegrees,
+      distance: args.distance,
+      target: args.target,
+      width: args.width,
+      height: args.height,
+      layout: args.layout,
+      format: args.imageFormat,
+      maxDimension: args.maxDimension,
+      quality: args.quality,
+    })
+  })
+];
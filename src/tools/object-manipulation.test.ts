@@ -0,0 +1,141 @@
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { SplineObject } from '../types/spline';
+
+describe('object manipulation tools', () => {
+  let harness: TestHarness;
+
+  const objectNamed = (name: string): SplineObject =>
+    harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.name === name)!;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('spline_get_scene_objects lists the objects of a scene', async () => {
+    const result = await harness.callTool('spline_get_scene_objects', { sceneId: MOCK_SCENE_ID });
+    const { objects } = structured<{ objects: SplineObject[] }>(result);
+
+    expect(objects.map(object => object.name)).toEqual(
+      expect.arrayContaining(['Camera', 'Floor', 'Product', 'Accent Sphere', 'Headline'])
+    );
+  });
+
+  it('spline_get_object returns one object', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_get_object', { sceneId: MOCK_SCENE_ID, objectId: product.id });
+
+    expect(result.structuredContent).toMatchObject({ id: product.id, name: 'Product', type: 'mesh' });
+  });
+
+  it('spline_get_object reports an unknown object as not found', async () => {
+    const result = await harness.callTool('spline_get_object', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: '00000000-0000-4000-8000-000000000000',
+    });
+
+    expect(toolError(result)).toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+  });
+
+  it('spline_update_object_transform moves the object and keeps the other components', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_update_object_transform', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      position: { x: 10, y: 20, z: 30 },
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      position: { x: 10, y: 20, z: 30 },
+      rotation: product.rotation,
+      scale: product.scale,
+    });
+  });
+
+  it('spline_update_object_transform rejects an incomplete vector', async () => {
+    await expect(harness.callTool('spline_update_object_transform', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: objectNamed('Product').id,
+      position: { x: 10 },
+    })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_update_object_properties merges properties', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_update_object_properties', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      properties: { color: '#ff0000' },
+    });
+
+    expect(result.structuredContent).toMatchObject({ properties: { color: '#ff0000', geometry: 'cube' } });
+  });
+
+  it('spline_set_object_visibility hides the object', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_set_object_visibility', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      visible: false,
+    });
+
+    expect(result.structuredContent).toMatchObject({ id: product.id, visible: false });
+    expect(objectNamed('Product').visible).toBe(false);
+  });
+
+  it('spline_set_object_visibility requires a boolean', async () => {
+    await expect(harness.callTool('spline_set_object_visibility', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: objectNamed('Product').id,
+      visible: 'no',
+    })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_create_object adds an object to the scene', async () => {
+    const result = await harness.callTool('spline_create_object', {
+      sceneId: MOCK_SCENE_ID,
+      name: 'Box',
+      type: 'mesh',
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    });
+
+    expect(result.structuredContent).toMatchObject({ name: 'Box', type: 'mesh', visible: true });
+    expect(objectNamed('Box')).toBeDefined();
+  });
+
+  it('spline_create_object rejects an unknown object type', async () => {
+    await expect(harness.callTool('spline_create_object', {
+      sceneId: MOCK_SCENE_ID,
+      name: 'Box',
+      type: 'cube',
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    })).rejects.toMatchObject({ code: -32602, message: expect.stringContaining('type') });
+  });
+
+  it('spline_duplicate_object copies the object', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_duplicate_object', { sceneId: MOCK_SCENE_ID, objectId: product.id });
+
+    expect(result.structuredContent).toMatchObject({ name: 'Product Copy', position: product.position });
+    expect(structured<SplineObject>(result).id).not.toBe(product.id);
+  });
+
+  it('spline_delete_object removes the object', async () => {
+    const product = objectNamed('Product');
+    const result = await harness.callTool('spline_delete_object', { sceneId: MOCK_SCENE_ID, objectId: product.id });
+
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(objectNamed('Product')).toBeUndefined();
+  });
+});
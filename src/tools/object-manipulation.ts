@@ -1,71 +1,18 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance } from 'axios';
-import { config } from '../config/config';
 import { Logger } from '../utils/logger';
-import { ErrorHandler, SplineApiError, NotFoundError, ValidationError } from '../utils/error-handler';
+import { SplineApiClient } from '../api/spline-api-client';
+import { ErrorHandler, ValidationError } from '../utils/error-handler';
 import { Validator } from '../utils/validation';
 import { SplineObject, Vector3, ApiResponse } from '../types/spline';
 import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan, NAME_CHOSEN_BY_SPLINE } from './dry-run';
+import { describeObject, entityOutput, listOutput, acknowledgementOutput, objectSchema } from './output-schemas';
 
 export class SplineObjectManager {
-  private api: AxiosInstance;
-
-  constructor() {
-    this.api = axios.create({
-      baseURL: `${config.spline.apiBaseUrl}/${config.spline.apiVersion}`,
-      timeout: config.spline.timeout,
-      headers: {
-        'Authorization': `Bearer ${config.spline.apiKey}`,
-        'Content-Type': 'application/json',
-        'User-Agent': 'Spline-MCP-Server/1.0.0',
-      },
-    });
+  private api: SplineApiClient;
 
-    this.setupInterceptors();
-  }
-
-  private setupInterceptors() {
-    this.api.interceptors.request.use(
-      (config) => {
-        const requestId = uuidv4();
-        config.headers['X-Request-ID'] = requestId;
-        Logger.debug('Spline Object API request', { 
-          method: config.method,
-          url: config.url,
-          requestId 
-        });
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-
-    this.api.interceptors.response.use(
-      (response) => {
-        Logger.debug('Spline Object API response', {
-          status: response.status,
-          requestId: response.config.headers['X-Request-ID'],
-        });
-        return response;
-      },
-      (error) => {
-        const requestId = error.config?.headers?.['X-Request-ID'];
-        Logger.error('Spline Object API error', {
-          status: error.response?.status,
-          message: error.response?.data?.message || error.message,
-          requestId,
-        });
-        
-        if (error.response?.status === 404) {
-          throw new NotFoundError('Object');
-        } else if (error.response?.status >= 400 && error.response?.status < 500) {
-          throw new SplineApiError(error.response.data?.message || 'Client error', error.response.status);
-        } else if (error.response?.status >= 500) {
-          throw new SplineApiError('Server error', error.response.status);
-        }
-        
-        throw new SplineApiError(error.message);
-      }
-    );
+  constructor(api: SplineApiClient = SplineApiClient.shared()) {
+    this.api = api.withDefaults({ resourceName: 'Object' });
   }
 
   async getSceneObjects(sceneId: string): Promise<ApiResponse<SplineObject[]>> {
@@ -118,16 +65,7 @@ export class SplineObjectManager {
         throw new ValidationError('Object ID is required');
       }
 
-      // Validate transform data
-      if (transform.position) {
-        Validator.validate(Validator.vector3Schema, transform.position);
-      }
-      if (transform.rotation) {
-        Validator.validate(Validator.vector3Schema, transform.rotation);
-      }
-      if (transform.scale) {
-        Validator.validate(Validator.vector3Schema, transform.scale);
-      }
+      this.validateTransform(transform);
 
       const response = await this.api.patch(`/scenes/${sceneId}/objects/${objectId}/transform`, transform);
 
@@ -154,9 +92,7 @@ export class SplineObjectManager {
       if (!objectId) {
         throw new ValidationError('Object ID is required');
       }
-      if (!properties || Object.keys(properties).length === 0) {
-        throw new ValidationError('Properties object cannot be empty');
-      }
+      this.validateProperties(properties);
 
       const response = await this.api.patch(`/scenes/${sceneId}/objects/${objectId}/properties`, {
         properties
@@ -210,11 +146,7 @@ export class SplineObjectManager {
         throw new ValidationError('Invalid scene ID format');
       }
 
-      // Validate object data
-      const validatedData = Validator.validate(
-        Validator.splineObjectSchema.keys({ id: Validator.splineObjectSchema.extract('id').optional() }),
-        objectData
-      );
+      const validatedData = this.validateObjectData(objectData);
 
       const response = await this.api.post(`/scenes/${sceneId}/objects`, validatedData);
 
@@ -271,12 +203,120 @@ export class SplineObjectManager {
       };
     });
   }
+
+  async previewUpdateObjectTransform(
+    sceneId: string,
+    objectId: string,
+    transform: { position?: Vector3; rotation?: Vector3; scale?: Vector3 }
+  ): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      this.validateTransform(transform);
+
+      const object = (await this.getObject(sceneId, objectId)).data!;
+      const after = { ...object };
+      for (const key of ['position', 'rotation', 'scale'] as const) {
+        if (transform[key]) {
+          after[key] = { ...object[key], ...transform[key] };
+        }
+      }
+
+      return DryRun.plan(`Update the transform of ${describeObject(object)}`, object, after);
+    });
+  }
+
+  async previewUpdateObjectProperties(
+    sceneId: string,
+    objectId: string,
+    properties: Record<string, any>
+  ): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      this.validateProperties(properties);
+
+      const object = (await this.getObject(sceneId, objectId)).data!;
+      const after = { ...object, properties: { ...object.properties, ...properties } };
+
+      return DryRun.plan(`Update the properties of ${describeObject(object)}`, object, after);
+    });
+  }
+
+  async previewSetObjectVisibility(sceneId: string, objectId: string, visible: boolean): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const object = (await this.getObject(sceneId, objectId)).data!;
+
+      return DryRun.plan(`${visible ? 'Show' : 'Hide'} ${describeObject(object)}`, object, { ...object, visible });
+    });
+  }
+
+  async previewCreateObject(sceneId: string, objectData: Omit<SplineObject, 'id'>): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const validatedData = this.validateObjectData(objectData);
+      const objects = (await this.getSceneObjects(sceneId)).data!;
+
+      return DryRun.plan(
+        `Create ${validatedData.type} ${validatedData.name} in scene ${sceneId}, alongside ${objects.length} object(s)`,
+        null,
+        validatedData
+      );
+    });
+  }
+
+  async previewDeleteObject(sceneId: string, objectId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const object = (await this.getObject(sceneId, objectId)).data!;
+
+      return DryRun.plan(`Delete ${describeObject(object)}`, object, null);
+    });
+  }
+
+  async previewDuplicateObject(sceneId: string, objectId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const object = (await this.getObject(sceneId, objectId)).data!;
+      // Spline names the copy itself
+      return DryRun.plan(
+        `Duplicate ${describeObject(object)} as ${NAME_CHOSEN_BY_SPLINE}`,
+        null,
+        { ...object, id: undefined, name: NAME_CHOSEN_BY_SPLINE }
+      );
+    });
+  }
+
+  private validateTransform(transform: { position?: Vector3; rotation?: Vector3; scale?: Vector3 }) {
+    if (transform.position) {
+      Validator.validate(Validator.vector3Schema, transform.position);
+    }
+    if (transform.rotation) {
+      Validator.validate(Validator.vector3Schema, transform.rotation);
+    }
+    if (transform.scale) {
+      Validator.validate(Validator.vector3Schema, transform.scale);
+    }
+  }
+
+  private validateProperties(properties: Record<string, any>) {
+    if (!properties || Object.keys(properties).length === 0) {
+      throw new ValidationError('Properties object cannot be empty');
+    }
+  }
+
+  private validateObjectData(objectData: Omit<SplineObject, 'id'>): Omit<SplineObject, 'id'> {
+    return Validator.validate(
+      Validator.splineObjectSchema.keys({ id: Validator.splineObjectSchema.extract('id').optional() }),
+      objectData
+    );
+  }
 }
 
-export const objectManipulationTools: Tool[] = [
-  {
+type CreateObjectArgs = Omit<SplineObject, 'id' | 'visible' | 'properties'> & {
+  sceneId: string;
+  visible?: boolean;
+  properties?: Record<string, unknown>;
+};
+
+export const objectManipulationTools: ToolDefinition[] = [
+  defineTool<{ sceneId: string }>({
     name: "spline_get_scene_objects",
     description: "Get all objects in a Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -287,11 +327,14 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: listOutput("objects", objectSchema, describeObject),
+    handler: (args, { managers }) => managers.object.getSceneObjects(args.sceneId)
+  }),
+  defineTool<{ sceneId: string; objectId: string }>({
     name: "spline_get_object",
     description: "Get detailed information about a specific object in a scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -306,11 +349,14 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object) => `Object ${describeObject(object)}${object.visible === false ? ', hidden' : ''}`),
+    handler: (args, { managers }) => managers.object.getObject(args.sceneId, args.objectId)
+  }),
+  defineTool<{ sceneId: string; objectId: string; position?: Vector3; rotation?: Vector3; scale?: Vector3 }>({
     name: "spline_update_object_transform",
     description: "Update the position, rotation, or scale of an object in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -352,11 +398,23 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object) => `Updated transform of ${describeObject(object)}`),
+    handler: (args, { managers }) => managers.object.updateObjectTransform(args.sceneId, args.objectId, {
+      position: args.position,
+      rotation: args.rotation,
+      scale: args.scale,
+    }),
+    dryRun: (args, { managers }) => managers.object.previewUpdateObjectTransform(args.sceneId, args.objectId, {
+      position: args.position,
+      rotation: args.rotation,
+      scale: args.scale,
+    })
+  }),
+  defineTool<{ sceneId: string; objectId: string; properties: Record<string, unknown> }>({
     name: "spline_update_object_properties",
     description: "Update custom properties of an object in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -376,11 +434,15 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId", "properties"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object) => `Updated properties of ${describeObject(object)}`),
+    handler: (args, { managers }) => managers.object.updateObjectProperties(args.sceneId, args.objectId, args.properties),
+    dryRun: (args, { managers }) => managers.object.previewUpdateObjectProperties(args.sceneId, args.objectId, args.properties)
+  }),
+  defineTool<{ sceneId: string; objectId: string; visible: boolean }>({
     name: "spline_set_object_visibility",
     description: "Show or hide an object in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -399,11 +461,15 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId", "visible"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object, args) => `${args.visible ? 'Showed' : 'Hid'} ${describeObject(object)}`),
+    handler: (args, { managers }) => managers.object.setObjectVisibility(args.sceneId, args.objectId, args.visible),
+    dryRun: (args, { managers }) => managers.object.previewSetObjectVisibility(args.sceneId, args.objectId, args.visible)
+  }),
+  defineTool<CreateObjectArgs>({
     name: "spline_create_object",
     description: "Create a new object in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -465,11 +531,34 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "name", "type", "position", "rotation", "scale"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object) => `Created ${describeObject(object)}`),
+    handler: (args, { managers }) => managers.object.createObject(args.sceneId, {
+      name: args.name,
+      type: args.type,
+      position: args.position,
+      rotation: args.rotation,
+      scale: args.scale,
+      visible: args.visible !== undefined ? args.visible : true,
+      properties: args.properties || {},
+    }),
+    dryRun: (args, { managers }) => managers.object.previewCreateObject(args.sceneId, {
+      name: args.name,
+      type: args.type,
+      position: args.position,
+      rotation: args.rotation,
+      scale: args.scale,
+      visible: args.visible !== undefined ? args.visible : true,
+      properties: args.properties || {},
+    }),
+    // A new object has no prior state, and the dry run only lists the scene's objects to count them
+    auditBefore: async () => null,
+    auditTarget: (args, object: SplineObject) => ({ objectId: object.id })
+  }),
+  defineTool<{ sceneId: string; objectId: string }>({
     name: "spline_delete_object",
     description: "Delete an object from a Spline scene",
+    kind: "destructive",
     inputSchema: {
       type: "object",
       properties: {
@@ -484,11 +573,15 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Deleted object ${args.objectId} from scene ${args.sceneId}`),
+    handler: (args, { managers }) => managers.object.deleteObject(args.sceneId, args.objectId),
+    dryRun: (args, { managers }) => managers.object.previewDeleteObject(args.sceneId, args.objectId)
+  }),
+  defineTool<{ sceneId: string; objectId: string }>({
     name: "spline_duplicate_object",
     description: "Create a copy of an object in a Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -503,6 +596,9 @@ export const objectManipulationTools: Tool[] = [
         }
       },
       required: ["sceneId", "objectId"]
-    }
-  }
+    },
+    output: entityOutput<SplineObject>(objectSchema, (object, args) => `Duplicated object ${args.objectId} as ${describeObject(object)}`),
+    handler: (args, { managers }) => managers.object.duplicateObject(args.sceneId, args.objectId),
+    dryRun: (args, { managers }) => managers.object.previewDuplicateObject(args.sceneId, args.objectId)
+  })
 ];
\ No newline at end of file
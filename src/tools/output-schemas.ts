@@ -0,0 +1,174 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * How a tool's result is sent. `TData` is what the handler's `ApiResponse.data` holds; the mappers are
+ * declared as methods so an output typed with its own data still fits the `output` of any definition.
+ */
+export interface ToolOutput<TStructured extends object = object, TData = unknown> {
+  schema: NonNullable<Tool['outputSchema']>;
+  /** Shapes the manager's `ApiResponse.data` into the structured content */
+  toStructured(data: TData): TStructured;
+  /** Compact text sent alongside the structured content */
+  summarize(structured: TStructured, args: Record<string, unknown>): string;
+  /** Images from the manager's data to send as `image` content after the summary */
+  images?(data: TData): Array<{ data: string; mimeType: string }>;
+  /** Files from the manager's data to send as embedded `resource` content, base64-encoded */
+  resources?(data: TData): Array<{ uri: string; mimeType: string; blob: string }>;
+}
+
+// Mirrors of the interfaces in types/spline.ts. Only identifying fields are required
+// so that clients validating structuredContent tolerate sparse API responses.
+
+const vector3Schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    z: { type: 'number' },
+  },
+};
+
+export const sceneSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    url: { type: 'string' },
+    version: { type: 'string' },
+    created: { type: 'string', description: 'ISO 8601 timestamp' },
+    modified: { type: 'string', description: 'ISO 8601 timestamp' },
+    owner: { type: 'string' },
+    permissions: {
+      type: 'object',
+      properties: {
+        read: { type: 'boolean' },
+        write: { type: 'boolean' },
+        share: { type: 'boolean' },
+        admin: { type: 'boolean' },
+      },
+    },
+  },
+  required: ['id', 'name'],
+};
+
+export const objectSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['mesh', 'light', 'camera', 'group', 'text', 'spline'] },
+    position: vector3Schema,
+    rotation: vector3Schema,
+    scale: vector3Schema,
+    visible: { type: 'boolean' },
+    properties: { type: 'object', additionalProperties: true },
+  },
+  required: ['id', 'name'],
+};
+
+export const animationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    duration: { type: 'number' },
+    loop: { type: 'boolean' },
+    autoplay: { type: 'boolean' },
+    easing: { type: 'string' },
+  },
+  required: ['name'],
+};
+
+export const variableSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    value: {},
+    type: { type: 'string', enum: ['string', 'number', 'boolean', 'color', 'vector3'] },
+  },
+  required: ['name'],
+};
+
+export const exportJobSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    sceneId: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'] },
+    progress: { type: 'number' },
+    downloadUrl: { type: 'string' },
+    error: { type: 'string' },
+    options: { type: 'object', description: 'Options the export was created with' },
+    createdAt: { type: 'string', description: 'ISO 8601 timestamp' },
+    completedAt: { type: 'string', description: 'ISO 8601 timestamp' },
+  },
+  required: ['id', 'status'],
+};
+
+/**
+ * Output of a tool returning a single entity, e.g. a scene, whose fields become the structured content.
+ */
+export function entityOutput<T extends object>(
+  schema: JsonSchema,
+  summarize: (entity: T, args: Record<string, unknown>) => string
+): ToolOutput<T, T | undefined> {
+  return {
+    schema: schema as ToolOutput['schema'],
+    toStructured: (data) => JSON.parse(JSON.stringify(data ?? {})),
+    summarize,
+  };
+}
+
+/**
+ * Output of a tool returning a list; structured content must be an object, so the list is wrapped under `key`.
+ */
+export function listOutput<T>(
+  key: string,
+  itemSchema: JsonSchema,
+  describeItem: (item: T) => string
+): ToolOutput<Record<string, T[]>, T[] | undefined> {
+  return {
+    schema: {
+      type: 'object',
+      properties: {
+        [key]: { type: 'array', items: itemSchema },
+      },
+      required: [key],
+    },
+    toStructured: (data) => ({ [key]: JSON.parse(JSON.stringify(data ?? [])) }),
+    summarize: (structured) => {
+      const items = structured[key];
+      return [`${items.length} ${key}`, ...items.map(item => `- ${describeItem(item)}`)].join('\n');
+    },
+  };
+}
+
+/**
+ * Output of a tool that only performs an action and returns no data.
+ */
+export function acknowledgementOutput(summarize: (args: Record<string, unknown>) => string): ToolOutput<{ success: boolean }> {
+  return {
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+      },
+      required: ['success'],
+    },
+    toStructured: () => ({ success: true }),
+    summarize: (structured, args) => summarize(args),
+  };
+}
+
+export function describeScene(scene: { id: string; name: string }): string {
+  return `${scene.name} (${scene.id})`;
+}
+
+export function describeObject(object: { id: string; name: string; type?: string }): string {
+  return `${object.name}${object.type ? ` [${object.type}]` : ''} (${object.id})`;
+}
+
+export function describeExportJob(job: { id: string; status: string; progress?: number }): string {
+  return `Export job ${job.id}: ${job.status}${job.progress !== undefined ? ` (${job.progress}%)` : ''}`;
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { startHarness, TestHarness } from '../testing/mcp-harness';
+import type { ToolRegistry as ToolRegistryType } from './registry';
+
+const ECHO_PLUGIN = `
+exports.tools = async () => [{
+  name: 'echo',
+  description: 'Returns its arguments',
+  kind: 'read-only',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+  handler: async (args) => args,
+}];
+`;
+
+describe('tool plugins', () => {
+  let harness: TestHarness;
+  let ToolRegistry: typeof ToolRegistryType;
+  let pluginsDir: string;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+    // Loaded once the harness has configured the environment
+    ({ ToolRegistry } = await import('./registry'));
+
+    pluginsDir = path.join(harness.dataDir, 'plugins');
+    await fs.promises.mkdir(pluginsDir);
+    await fs.promises.writeFile(path.join(pluginsDir, 'echo.js'), ECHO_PLUGIN);
+    await fs.promises.writeFile(path.join(pluginsDir, 'broken.js'), 'exports.tools = { name: "broken" };');
+    await fs.promises.writeFile(path.join(pluginsDir, 'notes.txt'), 'not a plugin');
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('registers the tools a plugin module exports and skips modules that fail to load', async () => {
+    const registry = new ToolRegistry();
+    await registry.loadFromDirectory(pluginsDir);
+
+    expect(registry.definitions().map(definition => definition.name)).toEqual(['echo']);
+    expect(registry.validateArguments('echo', { text: 'hi' })).toEqual({ text: 'hi' });
+  });
+
+  it('ignores a missing plugin directory', async () => {
+    const registry = new ToolRegistry();
+    await registry.loadFromDirectory(path.join(harness.dataDir, 'missing'));
+
+    expect(registry.size).toBe(0);
+  });
+
+  it('describes the violations of the keywords it knows by their parameters', () => {
+    const registry = new ToolRegistry();
+    registry.register({
+      name: 'paint',
+      description: 'Paints an object',
+      kind: 'mutating',
+      inputSchema: {
+        type: 'object',
+        properties: { objectId: { type: 'string' }, color: { type: 'string', enum: ['red', 'blue'] } },
+        required: ['objectId'],
+        additionalProperties: false,
+      },
+      handler: async () => null,
+    });
+
+    expect(() => registry.validateArguments('paint', { color: 'green', shade: 1 })).toThrow(expect.objectContaining({
+      violations: expect.arrayContaining([
+        "arguments is missing required property 'objectId'",
+        "arguments has unexpected property 'shade'",
+        'arguments.color must be one of "red", "blue"',
+      ]),
+    }));
+  });
+});
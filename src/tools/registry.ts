@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger';
+import { ValidationError } from '../utils/error-handler';
+import { ClientIdentity } from '../auth/client-auth';
+import { ApiResponse } from '../types/spline';
+import { SplineSceneManager } from './scene-management';
+import { SplineObjectManager } from './object-manipulation';
+import { SplineAnimationManager } from './animation-control';
+import { SplineExportManager } from './export-tools';
+import { SplineApiStatusManager } from './api-status';
+import { SplineArtifactManager } from './artifact-tools';
+import { SplineVisualRegressionManager } from './visual-regression-tools';
+import { SplineMultiViewManager } from './multi-view-tools';
+import { SplineAuditManager } from './audit-tools';
+import { ToolOutput } from './output-schemas';
+import { DryRun, DryRunPlan } from './dry-run';
+
+/**
+ * What a tool does to Spline state. Drives the MCP tool annotations and lets
+ * cross-cutting concerns (permissions, dry runs, auditing) treat tools uniformly.
+ */
+export type ToolKind = 'read-only' | 'mutating' | 'destructive';
+
+export interface ToolManagers {
+  scene: SplineSceneManager;
+  object: SplineObjectManager;
+  animation: SplineAnimationManager;
+  export: SplineExportManager;
+  apiStatus: SplineApiStatusManager;
+  artifacts: SplineArtifactManager;
+  visualRegression: SplineVisualRegressionManager;
+  multiView: SplineMultiViewManager;
+  audit: SplineAuditManager;
+}
+
+export interface ToolContext {
+  requestId: string;
+  client: ClientIdentity;
+  sessionId?: string;
+  signal: AbortSignal;
+  managers: ToolManagers;
+  /** Sends an MCP progress notification if the caller asked for progress, otherwise does nothing */
+  reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+}
+
+/**
+ * A tool and its handlers. `TArgs` is the shape of the arguments once they passed `inputSchema`;
+ * the handlers are declared as methods so a definition typed with its own arguments still fits in a
+ * list of definitions.
+ */
+export interface ToolDefinition<TArgs extends Record<string, unknown> = Record<string, unknown>> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  kind: ToolKind;
+  /** Declares structured output; without it the raw result is returned as JSON text */
+  output?: ToolOutput;
+  handler(args: TArgs, context: ToolContext): Promise<unknown>;
+  /** Validates the call and describes the change without applying it; tools without one refuse dry runs */
+  dryRun?(args: TArgs, context: ToolContext): Promise<ApiResponse<DryRunPlan>>;
+  /**
+   * Reads only the state the audit log records as `before`, for tools whose dry run reads more than
+   * the call's target; resolves to null when the call creates something
+   */
+  auditBefore?(args: TArgs, context: ToolContext): Promise<unknown>;
+  /** Scene or object recorded in the audit log when not given by the `sceneId` and `objectId` arguments */
+  auditTarget?(args: TArgs, data: unknown): { sceneId?: string; objectId?: string };
+}
+
+/**
+ * Declares a tool whose handlers receive typed arguments; the registry has checked them against `inputSchema`.
+ */
+export function defineTool<TArgs extends Record<string, unknown>>(definition: ToolDefinition<TArgs>): ToolDefinition<TArgs> {
+  return definition;
+}
+
+function isApiResponse(value: unknown): value is ApiResponse {
+  return typeof value === 'object' && value !== null && 'success' in value && 'timestamp' in value;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const PLUGIN_EXTENSIONS = new Set(['.js', '.cjs']);
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private validators = new Map<string, ValidateFunction>();
+  private ajv = new Ajv({ allErrors: true, useDefaults: true });
+
+  register(...definitions: ToolDefinition[]) {
+    // Validate the whole batch first so a bad module registers nothing
+    const validators = new Map<string, ValidateFunction>();
+    for (const definition of definitions) {
+      this.validateDefinition(definition);
+
+      if (this.tools.has(definition.name) || validators.has(definition.name)) {
+        throw new ValidationError(`Tool ${definition.name} is already registered`);
+      }
+      validators.set(definition.name, this.compileSchema(definition));
+    }
+
+    for (const definition of definitions) {
+      this.tools.set(definition.name, definition);
+      this.validators.set(definition.name, validators.get(definition.name)!);
+    }
+  }
+
+  /**
+   * Checks call arguments against the tool's inputSchema and returns a copy with schema
+   * defaults filled in. Throws a ValidationError listing every violation.
+   */
+  validateArguments(name: string, args: Record<string, unknown> = {}): Record<string, unknown> {
+    const validate = this.validators.get(name);
+    if (!validate) {
+      throw new ValidationError(`Unknown tool: ${name}`);
+    }
+
+    const value = structuredClone(args);
+    if (!validate(value)) {
+      const violations = (validate.errors ?? []).map(error => this.describeViolation(error));
+      throw new ValidationError(`Invalid arguments for ${name}: ${violations.join('; ')}`, violations);
+    }
+
+    return value;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  list(): Tool[] {
+    return this.definitions().map(definition => ({
+      name: definition.name,
+      title: definition.title,
+      description: definition.description,
+      inputSchema: DryRun.inputSchema(definition),
+      outputSchema: DryRun.outputSchema(definition),
+      annotations: {
+        readOnlyHint: definition.kind === 'read-only',
+        destructiveHint: definition.kind === 'destructive',
+        openWorldHint: true,
+      },
+    }));
+  }
+
+  /**
+   * Builds the CallTool result: structured content with a short summary for tools that declare
+   * an output, otherwise the result serialized as JSON text.
+   */
+  static formatResult(definition: ToolDefinition, result: unknown, args: Record<string, unknown>): CallToolResult {
+    if (!definition.output) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    const data = ToolRegistry.resultData(result);
+    const structured = definition.output.toStructured(data);
+    const images = definition.output.images?.(data) ?? [];
+    const resources = definition.output.resources?.(data) ?? [];
+
+    return {
+      structuredContent: { ...structured },
+      content: [
+        { type: 'text', text: definition.output.summarize(structured, args) },
+        ...images.map(image => ({ type: 'image' as const, data: image.data, mimeType: image.mimeType })),
+        ...resources.map(resource => ({ type: 'resource' as const, resource })),
+      ],
+    };
+  }
+
+  /**
+   * The data a handler returned. Managers wrap it in an ApiResponse envelope that clients don't need.
+   */
+  static resultData(result: unknown): unknown {
+    return isApiResponse(result) ? result.data : result;
+  }
+
+  /**
+   * Loads third-party tool modules from a directory. Each `.js`/`.cjs` file must export
+   * `tools` (or a default export) as an array of tool definitions, or a function returning one.
+   * A module that fails to load is logged and skipped so one bad plugin cannot take the server down.
+   */
+  async loadFromDirectory(directory: string) {
+    const resolved = path.resolve(directory);
+
+    if (!fs.existsSync(resolved)) {
+      Logger.warn('Tool plugin directory not found', { directory: resolved });
+      return;
+    }
+
+    const files = fs.readdirSync(resolved)
+      .filter(file => PLUGIN_EXTENSIONS.has(path.extname(file)))
+      .sort();
+
+    for (const file of files) {
+      const modulePath = path.join(resolved, file);
+
+      try {
+        const pluginModule: Record<string, unknown> = await import(modulePath);
+        const exported = pluginModule.tools ?? pluginModule.default ?? pluginModule;
+        const definitions: unknown = typeof exported === 'function' ? await exported() : exported;
+
+        if (!Array.isArray(definitions)) {
+          throw new ValidationError('Module must export an array of tool definitions');
+        }
+
+        this.register(...definitions);
+        Logger.info('Tool plugin loaded', { module: file, tools: definitions.map(definition => definition.name) });
+      } catch (error) {
+        Logger.error(`Failed to load tool plugin ${file}`, error);
+      }
+    }
+  }
+
+  private compileSchema(definition: ToolDefinition): ValidateFunction {
+    try {
+      return this.ajv.compile(DryRun.inputSchema(definition));
+    } catch (error) {
+      throw new ValidationError(`Tool ${definition.name} has an invalid inputSchema: ${(error as Error).message}`);
+    }
+  }
+
+  private describeViolation(error: ErrorObject): string {
+    const field = `arguments${error.dataPath}`;
+    const { params } = error;
+
+    // The keyword tells which parameters ajv reports; the `in` checks narrow its params union to them
+    if (error.keyword === 'required' && 'missingProperty' in params) {
+      return `${field} is missing required property '${params.missingProperty}'`;
+    }
+    if (error.keyword === 'additionalProperties' && 'additionalProperty' in params) {
+      return `${field} has unexpected property '${params.additionalProperty}'`;
+    }
+    if (error.keyword === 'enum' && 'allowedValues' in params) {
+      return `${field} must be one of ${params.allowedValues.map(value => JSON.stringify(value)).join(', ')}`;
+    }
+    return `${field} ${error.message}`;
+  }
+
+  private validateDefinition(definition: ToolDefinition) {
+    if (!definition || typeof definition.name !== 'string' || !TOOL_NAME_PATTERN.test(definition.name)) {
+      throw new ValidationError(`Invalid tool name: ${definition?.name}`);
+    }
+    if (typeof definition.handler !== 'function') {
+      throw new ValidationError(`Tool ${definition.name} has no handler`);
+    }
+    if (definition.inputSchema?.type !== 'object') {
+      throw new ValidationError(`Tool ${definition.name} must declare an object inputSchema`);
+    }
+    if (definition.output && definition.output.schema?.type !== 'object') {
+      throw new ValidationError(`Tool ${definition.name} must declare an object output schema`);
+    }
+    if (!['read-only', 'mutating', 'destructive'].includes(definition.kind)) {
+      throw new ValidationError(`Tool ${definition.name} has an invalid kind: ${definition.kind}`);
+    }
+    if (definition.dryRun && definition.kind === 'read-only') {
+      throw new ValidationError(`Tool ${definition.name} is read-only and cannot declare a dry run`);
+    }
+  }
+}
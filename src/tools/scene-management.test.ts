@@ -0,0 +1,93 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { SplineScene } from '../types/spline';
+
+describe('scene management tools', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => {
+    harness.mock.reset();
+  });
+
+  it('spline_list_scenes lists the scenes', async () => {
+    const result = await harness.callTool('spline_list_scenes');
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      scenes: [{ id: MOCK_SCENE_ID, name: 'Product Showcase' }],
+    });
+  });
+
+  it('spline_list_scenes rejects a limit out of range', async () => {
+    await expect(harness.callTool('spline_list_scenes', { limit: 0 })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_get_scene returns the scene', async () => {
+    const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+
+    expect(result.structuredContent).toMatchObject({ id: MOCK_SCENE_ID, name: 'Product Showcase', version: '1' });
+  });
+
+  it('spline_get_scene rejects a missing or malformed scene ID', async () => {
+    await expect(harness.callTool('spline_get_scene', {})).rejects.toBeInstanceOf(McpError);
+    await expect(harness.callTool('spline_get_scene', { sceneId: 'not-a-uuid' })).rejects.toMatchObject({
+      code: -32602,
+      message: expect.stringContaining('sceneId'),
+    });
+  });
+
+  it('spline_get_scene reports an unknown scene as not found', async () => {
+    const result = await harness.callTool('spline_get_scene', { sceneId: '00000000-0000-4000-8000-000000000000' });
+
+    expect(toolError(result)).toMatchObject({ code: 'NOT_FOUND', statusCode: 404, retryable: false });
+  });
+
+  it('spline_create_scene creates a scene', async () => {
+    const result = await harness.callTool('spline_create_scene', { name: 'Landing Hero', description: 'Hero section' });
+    const scene = structured<SplineScene>(result);
+
+    expect(scene.name).toBe('Landing Hero');
+    expect(harness.mock.getScene(scene.id)?.description).toBe('Hero section');
+  });
+
+  it('spline_create_scene rejects an empty name', async () => {
+    await expect(harness.callTool('spline_create_scene', { name: '' })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_update_scene renames the scene and bumps its version', async () => {
+    const result = await harness.callTool('spline_update_scene', { sceneId: MOCK_SCENE_ID, name: 'Renamed' });
+
+    expect(result.structuredContent).toMatchObject({ id: MOCK_SCENE_ID, name: 'Renamed', version: '2' });
+  });
+
+  it('spline_duplicate_scene copies the scene with its objects', async () => {
+    const result = await harness.callTool('spline_duplicate_scene', { sceneId: MOCK_SCENE_ID, newName: 'Copy' });
+    const copy = structured<SplineScene>(result);
+
+    expect(copy.name).toBe('Copy');
+    expect(copy.id).not.toBe(MOCK_SCENE_ID);
+    expect(harness.mock.getScene(copy.id)?.objects).toHaveLength(harness.mock.getScene(MOCK_SCENE_ID)!.objects.length);
+  });
+
+  it('spline_delete_scene deletes the scene', async () => {
+    const result = await harness.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID });
+
+    expect(result.structuredContent).toEqual({ success: true });
+    expect(harness.mock.getScene(MOCK_SCENE_ID)).toBeUndefined();
+  });
+
+  it('spline_delete_scene reports an already deleted scene as not found', async () => {
+    await harness.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID });
+    const result = await harness.callTool('spline_delete_scene', { sceneId: MOCK_SCENE_ID });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+});
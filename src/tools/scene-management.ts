@@ -1,71 +1,18 @@
-import { McpError, Tool } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance } from 'axios';
-import { config } from '../config/config';
 import { Logger } from '../utils/logger';
-import { ErrorHandler, SplineApiError, NotFoundError, ValidationError } from '../utils/error-handler';
+import { SplineApiClient } from '../api/spline-api-client';
+import { ErrorHandler, ValidationError } from '../utils/error-handler';
 import { Validator } from '../utils/validation';
 import { SplineScene, ApiResponse } from '../types/spline';
 import { v4 as uuidv4 } from 'uuid';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan, NAME_CHOSEN_BY_SPLINE } from './dry-run';
+import { describeScene, entityOutput, listOutput, acknowledgementOutput, sceneSchema } from './output-schemas';
 
 export class SplineSceneManager {
-  private api: AxiosInstance;
-
-  constructor() {
-    this.api = axios.create({
-      baseURL: `${config.spline.apiBaseUrl}/${config.spline.apiVersion}`,
-      timeout: config.spline.timeout,
-      headers: {
-        'Authorization': `Bearer ${config.spline.apiKey}`,
-        'Content-Type': 'application/json',
-        'User-Agent': 'Spline-MCP-Server/1.0.0',
-      },
-    });
-
-    this.setupInterceptors();
-  }
+  private api: SplineApiClient;
 
-  private setupInterceptors() {
-    this.api.interceptors.request.use(
-      (config) => {
-        const requestId = uuidv4();
-        config.headers['X-Request-ID'] = requestId;
-        Logger.debug('Spline API request', { 
-          method: config.method,
-          url: config.url,
-          requestId 
-        });
-        return config;
-      },
-      (error) => Promise.reject(error)
-    );
-
-    this.api.interceptors.response.use(
-      (response) => {
-        Logger.debug('Spline API response', {
-          status: response.status,
-          requestId: response.config.headers['X-Request-ID'],
-        });
-        return response;
-      },
-      (error) => {
-        const requestId = error.config?.headers?.['X-Request-ID'];
-        Logger.error('Spline API error', {
-          status: error.response?.status,
-          message: error.response?.data?.message || error.message,
-          requestId,
-        });
-        
-        if (error.response?.status === 404) {
-          throw new NotFoundError('Scene');
-        } else if (error.response?.status >= 400 && error.response?.status < 500) {
-          throw new SplineApiError(error.response.data?.message || 'Client error', error.response.status);
-        } else if (error.response?.status >= 500) {
-          throw new SplineApiError('Server error', error.response.status);
-        }
-        
-        throw new SplineApiError(error.message);
-      }
-    );
+  constructor(api: SplineApiClient = SplineApiClient.shared()) {
+    this.api = api.withDefaults({ resourceName: 'Scene' });
   }
 
   async listScenes(limit: number = 50, offset: number = 0): Promise<ApiResponse<SplineScene[]>> {
@@ -106,13 +53,7 @@ export class SplineSceneManager {
 
   async createScene(name: string, description?: string): Promise<ApiResponse<SplineScene>> {
     return ErrorHandler.handleAsync(async () => {
-      if (!name || name.trim().length === 0) {
-        throw new ValidationError('Scene name is required');
-      }
-
-      if (name.length > 100) {
-        throw new ValidationError('Scene name must be less than 100 characters');
-      }
+      this.validateSceneName(name, 'Scene name is required');
 
       const response = await this.api.post('/scenes', {
         name: name.trim(),
@@ -137,12 +78,7 @@ export class SplineSceneManager {
       }
 
       if (updates.name !== undefined) {
-        if (!updates.name || updates.name.trim().length === 0) {
-          throw new ValidationError('Scene name cannot be empty');
-        }
-        if (updates.name.length > 100) {
-          throw new ValidationError('Scene name must be less than 100 characters');
-        }
+        this.validateSceneName(updates.name, 'Scene name cannot be empty');
       }
 
       const response = await this.api.patch(`/scenes/${sceneId}`, updates);
@@ -196,12 +132,63 @@ export class SplineSceneManager {
       };
     });
   }
+
+  async previewCreateScene(name: string, description?: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      this.validateSceneName(name, 'Scene name is required');
+
+      return DryRun.plan(`Create scene ${name.trim()}`, null, { name: name.trim(), description: description?.trim() });
+    });
+  }
+
+  async previewUpdateScene(sceneId: string, updates: Partial<{ name: string; description: string }>): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      if (updates.name !== undefined) {
+        this.validateSceneName(updates.name, 'Scene name cannot be empty');
+      }
+
+      const scene = (await this.getScene(sceneId)).data!;
+      const changes = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+
+      return DryRun.plan(`Update scene ${describeScene(scene)}`, scene, { ...scene, ...changes });
+    });
+  }
+
+  async previewDeleteScene(sceneId: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const scene = (await this.getScene(sceneId)).data!;
+      const response = await this.api.get(`/scenes/${sceneId}/objects`);
+      const objectCount = response.data.objects.length;
+
+      return DryRun.plan(`Delete scene ${describeScene(scene)} and its ${objectCount} object(s)`, scene, null);
+    });
+  }
+
+  async previewDuplicateScene(sceneId: string, newName?: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const scene = (await this.getScene(sceneId)).data!;
+      // Without a new name Spline picks one when it makes the copy
+      const name = newName ?? NAME_CHOSEN_BY_SPLINE;
+
+      return DryRun.plan(`Duplicate scene ${describeScene(scene)} as ${name}`, null, { ...scene, id: undefined, url: undefined, name });
+    });
+  }
+
+  private validateSceneName(name: string, emptyMessage: string) {
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError(emptyMessage);
+    }
+    if (name.length > 100) {
+      throw new ValidationError('Scene name must be less than 100 characters');
+    }
+  }
 }
 
-export const sceneManagementTools: Tool[] = [
-  {
+export const sceneManagementTools: ToolDefinition[] = [
+  defineTool<{ limit?: number; offset?: number }>({
     name: "spline_list_scenes",
     description: "List all available Spline scenes with pagination support",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -219,11 +206,14 @@ export const sceneManagementTools: Tool[] = [
           default: 0
         }
       }
-    }
-  },
-  {
+    },
+    output: listOutput("scenes", sceneSchema, describeScene),
+    handler: (args, { managers }) => managers.scene.listScenes(args.limit, args.offset)
+  }),
+  defineTool<{ sceneId: string }>({
     name: "spline_get_scene",
     description: "Get detailed information about a specific Spline scene",
+    kind: "read-only",
     inputSchema: {
       type: "object",
       properties: {
@@ -234,11 +224,14 @@ export const sceneManagementTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineScene>(sceneSchema, (scene) => `Scene ${describeScene(scene)}, version ${scene.version}, modified ${scene.modified}`),
+    handler: (args, { managers }) => managers.scene.getScene(args.sceneId)
+  }),
+  defineTool<{ name: string; description?: string }>({
     name: "spline_create_scene",
     description: "Create a new Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -255,11 +248,16 @@ export const sceneManagementTools: Tool[] = [
         }
       },
       required: ["name"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineScene>(sceneSchema, (scene) => `Created scene ${describeScene(scene)}`),
+    handler: (args, { managers }) => managers.scene.createScene(args.name, args.description),
+    dryRun: (args, { managers }) => managers.scene.previewCreateScene(args.name, args.description),
+    auditTarget: (args, scene: SplineScene) => ({ sceneId: scene.id })
+  }),
+  defineTool<{ sceneId: string; name?: string; description?: string }>({
     name: "spline_update_scene",
     description: "Update an existing Spline scene's metadata",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -281,11 +279,21 @@ export const sceneManagementTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: entityOutput<SplineScene>(sceneSchema, (scene) => `Updated scene ${describeScene(scene)}`),
+    handler: (args, { managers }) => managers.scene.updateScene(args.sceneId, {
+      name: args.name,
+      description: args.description,
+    }),
+    dryRun: (args, { managers }) => managers.scene.previewUpdateScene(args.sceneId, {
+      name: args.name,
+      description: args.description,
+    })
+  }),
+  defineTool<{ sceneId: string }>({
     name: "spline_delete_scene",
     description: "Delete a Spline scene permanently",
+    kind: "destructive",
     inputSchema: {
       type: "object",
       properties: {
@@ -296,11 +304,17 @@ export const sceneManagementTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  },
-  {
+    },
+    output: acknowledgementOutput((args) => `Deleted scene ${args.sceneId}`),
+    handler: (args, { managers }) => managers.scene.deleteScene(args.sceneId),
+    dryRun: (args, { managers }) => managers.scene.previewDeleteScene(args.sceneId),
+    // The dry run also lists the scene's objects to count them
+    auditBefore: async (args, { managers }) => (await managers.scene.getScene(args.sceneId)).data
+  }),
+  defineTool<{ sceneId: string; newName?: string }>({
     name: "spline_duplicate_scene",
     description: "Create a copy of an existing Spline scene",
+    kind: "mutating",
     inputSchema: {
       type: "object",
       properties: {
@@ -317,6 +331,9 @@ export const sceneManagementTools: Tool[] = [
         }
       },
       required: ["sceneId"]
-    }
-  }
+    },
+    output: entityOutput<SplineScene>(sceneSchema, (scene, args) => `Duplicated scene ${args.sceneId} as ${describeScene(scene)}`),
+    handler: (args, { managers }) => managers.scene.duplicateScene(args.sceneId, args.newName),
+    dryRun: (args, { managers }) => managers.scene.previewDuplicateScene(args.sceneId, args.newName)
+  })
 ];
\ No newline at end of file
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { MOCK_SCENE_ID, startHarness, structured, TestHarness, toolError } from '../testing/mcp-harness';
+import { BaselineComparison, StoredBaseline } from './visual-regression-tools';
+
+describe('visual regression tools', () => {
+  let harness: TestHarness;
+
+  const size = { width: 320, height: 180 };
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  beforeEach(async () => {
+    harness.mock.reset();
+    await harness.callTool('spline_delete_baseline', { sceneId: MOCK_SCENE_ID, name: 'default' });
+  });
+
+  it('spline_capture_baseline stores one image per size', async () => {
+    const result = await harness.callTool('spline_capture_baseline', { sceneId: MOCK_SCENE_ID, sizes: [size] });
+    const baseline = structured<StoredBaseline>(result);
+
+    expect(baseline).toMatchObject({ sceneId: MOCK_SCENE_ID, name: 'default', images: [{ ...size, fileName: '320x180.png' }] });
+    expect(fs.existsSync(`${baseline.path}/320x180.png`)).toBe(true);
+  });
+
+  it('spline_capture_baseline rejects an invalid baseline name', async () => {
+    await expect(harness.callTool('spline_capture_baseline', { sceneId: MOCK_SCENE_ID, name: '../escape' }))
+      .rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('spline_compare_to_baseline passes for an unchanged scene', async () => {
+    await harness.callTool('spline_capture_baseline', { sceneId: MOCK_SCENE_ID, sizes: [size] });
+    const result = await harness.callTool('spline_compare_to_baseline', { sceneId: MOCK_SCENE_ID });
+
+    expect(result.structuredContent).toMatchObject({ passed: true, comparisons: [{ ...size, mismatchPercent: 0 }] });
+  });
+
+  it('spline_compare_to_baseline fails once an object moved, with the diff inline when asked', async () => {
+    await harness.callTool('spline_capture_baseline', { sceneId: MOCK_SCENE_ID, sizes: [size] });
+    const product = harness.mock.getScene(MOCK_SCENE_ID)!.objects.find(object => object.name === 'Product')!;
+    await harness.callTool('spline_update_object_transform', {
+      sceneId: MOCK_SCENE_ID,
+      objectId: product.id,
+      position: { x: -250, y: 0, z: 0 },
+    });
+
+    const result = await harness.callTool('spline_compare_to_baseline', { sceneId: MOCK_SCENE_ID, includeDiffImages: true });
+    const comparison = structured<BaselineComparison>(result);
+
+    expect(comparison.passed).toBe(false);
+    expect(comparison.comparisons[0].mismatchPercent).toBeGreaterThan(0.5);
+    expect(result.content.some(block => block.type === 'image')).toBe(true);
+  });
+
+  it('spline_compare_to_baseline reports a missing baseline as not found', async () => {
+    const result = await harness.callTool('spline_compare_to_baseline', { sceneId: MOCK_SCENE_ID, name: 'missing' });
+
+    expect(toolError(result).code).toBe('NOT_FOUND');
+  });
+
+  it('spline_list_baselines and spline_delete_baseline manage stored baselines', async () => {
+    await harness.callTool('spline_capture_baseline', { sceneId: MOCK_SCENE_ID, sizes: [size] });
+
+    const listed = await harness.callTool('spline_list_baselines', { sceneId: MOCK_SCENE_ID });
+    expect(listed.structuredContent).toMatchObject({ baselines: [{ name: 'default' }] });
+
+    const deleted = await harness.callTool('spline_delete_baseline', { sceneId: MOCK_SCENE_ID, name: 'default' });
+    expect(deleted.structuredContent).toEqual({ success: true });
+    expect(await harness.callTool('spline_list_baselines', {})).toMatchObject({ structuredContent: { baselines: [] } });
+  });
+});
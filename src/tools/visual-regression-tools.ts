@@ -0,0 +1,354 @@
+import { config } from '../config/config';
+import { ErrorHandler, NotFoundError } from '../utils/error-handler';
+import { EncodedImage, ImageProcessor } from '../utils/image-processor';
+import { ApiResponse } from '../types/spline';
+import { BaselineManifest, BaselineStore, CapturedImage } from '../baselines/baseline-store';
+import { v4 as uuidv4 } from 'uuid';
+import Jimp from 'jimp';
+import { defineTool, ToolDefinition } from './registry';
+import { DryRun, DryRunPlan } from './dry-run';
+import { SplineExportManager } from './export-tools';
+import { SplineSceneManager } from './scene-management';
+import { ToolOutput, acknowledgementOutput, entityOutput, listOutput } from './output-schemas';
+
+export interface PreviewSize {
+  width: number;
+  height: number;
+}
+
+export interface StoredBaseline extends BaselineManifest {
+  path: string;
+}
+
+export interface SizeComparison extends PreviewSize {
+  /** Share of pixels that differ beyond the pixel threshold, 0-100 */
+  mismatchPercent: number;
+  passed: boolean;
+  latestPath: string;
+  diffPath: string;
+}
+
+export interface BaselineComparison {
+  sceneId: string;
+  name: string;
+  passed: boolean;
+  pixelThreshold: number;
+  maxMismatchPercent: number;
+  baselineCapturedAt: string;
+  comparisons: SizeComparison[];
+  /** Diff images to return inline, only when requested */
+  diffImages?: EncodedImage[];
+}
+
+export interface CompareOptions {
+  pixelThreshold?: number;
+  maxMismatchPercent?: number;
+  includeDiffImages?: boolean;
+}
+
+const DEFAULT_SIZES: PreviewSize[] = [{ width: 1280, height: 720 }];
+
+export class SplineVisualRegressionManager {
+  constructor(
+    private exportManager: SplineExportManager,
+    private sceneManager: SplineSceneManager,
+    private store: BaselineStore = new BaselineStore()
+  ) {}
+
+  /**
+   * Renders a preview of the scene at each size and stores them as the named baseline, replacing any previous one.
+   */
+  async captureBaseline(sceneId: string, name: string, sizes: PreviewSize[] = DEFAULT_SIZES): Promise<ApiResponse<StoredBaseline>> {
+    return ErrorHandler.handleAsync(async () => {
+      const scene = (await this.sceneManager.getScene(sceneId)).data!;
+
+      const captures: CapturedImage[] = [];
+      for (const size of sizes) {
+        captures.push({ ...size, image: await this.renderPreview(sceneId, size) });
+      }
+
+      const manifest = await this.store.save(sceneId, name, captures, scene.version);
+      return this.toResponse({ ...manifest, path: this.store.getPath(sceneId, name) });
+    });
+  }
+
+  /**
+   * Renders fresh previews at the baseline's sizes and diffs them pixel by pixel against the baseline.
+   */
+  async compareToBaseline(sceneId: string, name: string, options: CompareOptions = {}): Promise<ApiResponse<BaselineComparison>> {
+    return ErrorHandler.handleAsync(async () => {
+      const manifest = await this.store.get(sceneId, name);
+      const pixelThreshold = options.pixelThreshold ?? config.visualRegression.pixelThreshold;
+      const maxMismatchPercent = options.maxMismatchPercent ?? config.visualRegression.maxMismatchPercent;
+
+      const comparisons: SizeComparison[] = [];
+      const diffImages: EncodedImage[] = [];
+
+      for (const baselineImage of manifest.images) {
+        const baseline = await this.store.readImage(sceneId, name, baselineImage);
+        const latest = await this.renderPreview(sceneId, baselineImage);
+
+        // Spline may round the rendered size; compare at the baseline's exact dimensions
+        if (latest.bitmap.width !== baseline.bitmap.width || latest.bitmap.height !== baseline.bitmap.height) {
+          latest.resize(baseline.bitmap.width, baseline.bitmap.height);
+        }
+
+        const diff = Jimp.diff(baseline, latest, pixelThreshold);
+        const mismatchPercent = Math.round(diff.percent * 100 * 1000) / 1000;
+        const files = await this.store.saveComparison(sceneId, name, baselineImage, latest, diff.image);
+
+        comparisons.push({
+          width: baselineImage.width,
+          height: baselineImage.height,
+          mismatchPercent,
+          passed: mismatchPercent <= maxMismatchPercent,
+          ...files,
+        });
+
+        if (options.includeDiffImages) {
+          diffImages.push(await ImageProcessor.encode(diff.image, { format: 'png', maxDimension: 768 }));
+        }
+      }
+
+      return this.toResponse({
+        sceneId,
+        name,
+        passed: comparisons.every(comparison => comparison.passed),
+        pixelThreshold,
+        maxMismatchPercent,
+        baselineCapturedAt: manifest.capturedAt,
+        comparisons,
+        diffImages: options.includeDiffImages ? diffImages : undefined,
+      });
+    });
+  }
+
+  async listBaselines(sceneId?: string): Promise<ApiResponse<BaselineManifest[]>> {
+    return ErrorHandler.handleAsync(async () => this.toResponse(await this.store.list(sceneId)));
+  }
+
+  async deleteBaseline(sceneId: string, name: string): Promise<ApiResponse<void>> {
+    return ErrorHandler.handleAsync(async () => {
+      await this.store.delete(sceneId, name);
+      return this.toResponse(undefined);
+    });
+  }
+
+  async previewCaptureBaseline(sceneId: string, name: string, sizes: PreviewSize[] = DEFAULT_SIZES): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const existing = await this.store.get(sceneId, name).catch((error) => {
+        if (error instanceof NotFoundError) {
+          return null;
+        }
+        throw error;
+      });
+      const scene = (await this.sceneManager.getScene(sceneId)).data!;
+
+      return DryRun.plan(
+        `${existing ? 'Replace' : 'Capture'} baseline ${name} of scene ${scene.name} (${scene.id}) at ${sizes.map(size => `${size.width}x${size.height}`).join(', ')}`,
+        existing,
+        { sceneId, name, sceneVersion: scene.version, sizes }
+      );
+    });
+  }
+
+  async previewDeleteBaseline(sceneId: string, name: string): Promise<ApiResponse<DryRunPlan>> {
+    return ErrorHandler.handleAsync(async () => {
+      const manifest = await this.store.get(sceneId, name);
+      return DryRun.plan(`Delete baseline ${name} of scene ${sceneId}, captured ${manifest.capturedAt}`, manifest, null);
+    });
+  }
+
+  private async renderPreview(sceneId: string, size: PreviewSize): Promise<Jimp> {
+    const preview = await this.exportManager.getPreviewImage(sceneId, size.width, size.height);
+    return ImageProcessor.read(await ImageProcessor.download(preview.data!.imageUrl));
+  }
+
+  private toResponse<T>(data: T): ApiResponse<T> {
+    return {
+      success: true,
+      data,
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    };
+  }
+}
+
+const baselineSchema = {
+  type: "object",
+  properties: {
+    sceneId: { type: "string" },
+    name: { type: "string" },
+    sceneVersion: { type: "string" },
+    capturedAt: { type: "string", description: "ISO 8601 timestamp" },
+    images: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          width: { type: "number" },
+          height: { type: "number" },
+          fileName: { type: "string" },
+          sha256: { type: "string" }
+        }
+      }
+    },
+    path: { type: "string", description: "Absolute path of the baseline directory on the server" }
+  },
+  required: ["sceneId", "name", "images"]
+};
+
+const comparisonSchema: ToolOutput['schema'] = {
+  type: "object",
+  properties: {
+    sceneId: { type: "string" },
+    name: { type: "string" },
+    passed: { type: "boolean", description: "Whether every size is within the mismatch limit" },
+    pixelThreshold: { type: "number" },
+    maxMismatchPercent: { type: "number" },
+    baselineCapturedAt: { type: "string", description: "ISO 8601 timestamp" },
+    comparisons: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          width: { type: "number" },
+          height: { type: "number" },
+          mismatchPercent: { type: "number", description: "Percentage of pixels that differ" },
+          passed: { type: "boolean" },
+          latestPath: { type: "string", description: "Absolute path of the fresh preview" },
+          diffPath: { type: "string", description: "Absolute path of the diff image, differing pixels are highlighted" }
+        }
+      }
+    }
+  },
+  required: ["sceneId", "name", "passed", "comparisons"]
+};
+
+const sceneIdProperty = {
+  type: "string",
+  description: "UUID of the scene",
+  pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$"
+};
+
+const baselineNameProperty = {
+  type: "string",
+  description: "Name of the baseline, to keep several per scene (e.g. per camera or release)",
+  pattern: "^[a-zA-Z0-9_-]{1,64}$"
+};
+
+function describeBaseline(baseline: BaselineManifest): string {
+  const sizes = baseline.images.map(image => `${image.width}x${image.height}`).join(', ');
+  return `${baseline.name} of scene ${baseline.sceneId} (${sizes}, captured ${baseline.capturedAt})`;
+}
+
+export const visualRegressionTools: ToolDefinition[] = [
+  defineTool<{ sceneId: string; name: string; sizes?: PreviewSize[] }>({
+    name: "spline_capture_baseline",
+    description: "Render previews of a scene at fixed sizes and store them as a baseline for later visual comparison",
+    kind: "mutating",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: sceneIdProperty,
+        name: { ...baselineNameProperty, default: "default" },
+        sizes: {
+          type: "array",
+          description: "Preview sizes to capture",
+          items: {
+            type: "object",
+            properties: {
+              width: { type: "number", minimum: 100, maximum: 4096 },
+              height: { type: "number", minimum: 100, maximum: 4096 }
+            },
+            required: ["width", "height"]
+          },
+          minItems: 1,
+          maxItems: 5,
+          default: DEFAULT_SIZES
+        }
+      },
+      required: ["sceneId"]
+    },
+    output: entityOutput<StoredBaseline>(baselineSchema, (baseline) => `Captured baseline ${describeBaseline(baseline)} at ${baseline.path}`),
+    handler: (args, { managers }) => managers.visualRegression.captureBaseline(args.sceneId, args.name, args.sizes),
+    dryRun: (args, { managers }) => managers.visualRegression.previewCaptureBaseline(args.sceneId, args.name, args.sizes)
+  }),
+  defineTool<{ sceneId: string; name: string; pixelThreshold?: number; maxMismatchPercent?: number; includeDiffImages?: boolean }>({
+    name: "spline_compare_to_baseline",
+    description: "Render fresh previews of a scene and compare them pixel by pixel against a stored baseline; reports the share of differing pixels and whether it is within the limit",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: sceneIdProperty,
+        name: { ...baselineNameProperty, default: "default" },
+        pixelThreshold: {
+          type: "number",
+          description: "Colour distance from 0 to 1 below which two pixels count as equal (defaults to the server setting)",
+          minimum: 0,
+          maximum: 1
+        },
+        maxMismatchPercent: {
+          type: "number",
+          description: "Percentage of differing pixels allowed before the check fails (defaults to the server setting)",
+          minimum: 0,
+          maximum: 100
+        },
+        includeDiffImages: {
+          type: "boolean",
+          description: "Also return the diff images as image content",
+          default: false
+        }
+      },
+      required: ["sceneId"]
+    },
+    output: {
+      schema: comparisonSchema,
+      toStructured: ({ diffImages, ...comparison }: BaselineComparison) => JSON.parse(JSON.stringify(comparison)),
+      summarize: (comparison: Omit<BaselineComparison, 'diffImages'>) => [
+        `Baseline ${comparison.name} of scene ${comparison.sceneId}: ${comparison.passed ? 'PASSED' : 'FAILED'} (limit ${comparison.maxMismatchPercent}% of pixels)`,
+        ...comparison.comparisons.map(size =>
+          `- ${size.width}x${size.height}: ${size.mismatchPercent}% differ${size.passed ? '' : ', over the limit'}, diff at ${size.diffPath}`),
+      ].join('\n'),
+      images: (comparison: BaselineComparison) => comparison.diffImages ?? []
+    },
+    handler: (args, { managers }) => managers.visualRegression.compareToBaseline(args.sceneId, args.name, {
+      pixelThreshold: args.pixelThreshold,
+      maxMismatchPercent: args.maxMismatchPercent,
+      includeDiffImages: args.includeDiffImages
+    })
+  }),
+  defineTool<{ sceneId?: string }>({
+    name: "spline_list_baselines",
+    description: "List stored visual regression baselines, newest first",
+    kind: "read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: {
+          ...sceneIdProperty,
+          description: "Only list baselines of this scene"
+        }
+      }
+    },
+    output: listOutput<BaselineManifest>("baselines", baselineSchema, describeBaseline),
+    handler: (args, { managers }) => managers.visualRegression.listBaselines(args.sceneId)
+  }),
+  defineTool<{ sceneId: string; name: string }>({
+    name: "spline_delete_baseline",
+    description: "Delete a stored visual regression baseline",
+    kind: "destructive",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sceneId: sceneIdProperty,
+        name: baselineNameProperty
+      },
+      required: ["sceneId", "name"]
+    },
+    output: acknowledgementOutput((args) => `Deleted baseline ${args.name} of scene ${args.sceneId}`),
+    handler: (args, { managers }) => managers.visualRegression.deleteBaseline(args.sceneId, args.name),
+    dryRun: (args, { managers }) => managers.visualRegression.previewDeleteBaseline(args.sceneId, args.name)
+  })
+];
@@ -0,0 +1,320 @@
+import { Server as HttpServer } from 'http';
+import express, { Express, Request, Response } from 'express';
+import helmet from 'helmet';
+import cors from 'cors';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { Logger } from '../utils/logger';
+import { HealthChecker } from '../monitoring/health-checker';
+import { Metrics } from '../monitoring/metrics';
+import { ClientAuthService } from '../auth/client-auth';
+import { RateLimiter } from '../utils/rate-limiter';
+
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  clientId?: string;
+  lastActivity: number;
+}
+
+export interface HttpTransportOptions {
+  createServer: () => Server;
+  healthChecker: HealthChecker;
+  auth?: ClientAuthService;
+}
+
+export class HttpTransportServer {
+  private app: Express;
+  private httpServer?: HttpServer;
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private options: HttpTransportOptions) {
+    this.app = express();
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  private setupMiddleware() {
+    this.app.set('trust proxy', config.security.trustProxy);
+
+    if (config.security.enableHelmet) {
+      this.app.use(helmet());
+    }
+
+    this.app.use(cors({
+      origin: config.security.corsOrigins.includes('*') ? '*' : config.security.corsOrigins,
+      exposedHeaders: ['Mcp-Session-Id'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+    }));
+
+    this.app.use(express.json({ limit: '4mb' }));
+  }
+
+  private setupRoutes() {
+    // Liveness: the process is up and serving requests
+    this.app.get('/health', (req, res) => {
+      const report = this.options.healthChecker.getLastReport();
+      res.status(200).json({
+        status: report?.status ?? 'starting',
+        uptimeSeconds: this.options.healthChecker.uptimeSeconds,
+        sessions: this.sessions.size,
+        checkedAt: report?.checkedAt,
+        checks: report?.checks,
+      });
+    });
+
+    // Readiness: dependencies are reachable and the server can take traffic
+    this.app.get('/ready', (req, res) => {
+      const report = this.options.healthChecker.getLastReport();
+      res.status(report?.ready ? 200 : 503).json({
+        ready: report?.ready ?? false,
+        status: report?.status ?? 'starting',
+        checkedAt: report?.checkedAt,
+        checks: report?.checks,
+      });
+    });
+
+    if (config.monitoring.enableMetrics) {
+      this.app.get('/metrics', async (req, res) => {
+        try {
+          res.set('Content-Type', Metrics.registry.contentType);
+          res.send(await Metrics.render());
+        } catch (error) {
+          Logger.error('Failed to render metrics', error);
+          res.status(500).end();
+        }
+      });
+    }
+
+    const authenticate = this.options.auth
+      ? [this.options.auth.middleware()]
+      : [];
+
+    if (this.options.auth) {
+      // Keyed by IP: callers have no identity yet, and every attempt costs a bcrypt comparison
+      this.app.post(
+        '/auth/token',
+        RateLimiter.createLimiter(config.auth.tokenRateLimit.windowMs, config.auth.tokenRateLimit.max),
+        express.urlencoded({ extended: false }),
+        this.options.auth.tokenHandler()
+      );
+    }
+
+    // Streamable HTTP transport
+    this.app.post('/mcp', ...authenticate, (req, res) => this.handleStreamablePost(req, res));
+    this.app.get('/mcp', ...authenticate, (req, res) => this.handleStreamableSessionRequest(req, res));
+    this.app.delete('/mcp', ...authenticate, (req, res) => this.handleStreamableSessionRequest(req, res));
+
+    // Deprecated HTTP+SSE transport for older clients
+    this.app.get('/sse', ...authenticate, (req, res) => this.handleSseConnect(req, res));
+    this.app.post('/messages', ...authenticate, (req, res) => this.handleSseMessage(req, res));
+  }
+
+  private async handleStreamablePost(req: Request, res: Response) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    try {
+      if (sessionId) {
+        const session = this.getSession(req, sessionId, StreamableHTTPServerTransport);
+        if (!session) {
+          this.sendJsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        this.sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      if (this.sessions.size >= config.mcp.maxSessions) {
+        this.sendJsonRpcError(res, 503, 'Maximum number of concurrent sessions reached');
+        return;
+      }
+
+      const clientId = (req as AuthenticatedRequest).auth?.clientId;
+      const server = this.options.createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => uuidv4(),
+        onsessioninitialized: (newSessionId) => {
+          this.sessions.set(newSessionId, { transport, server, clientId, lastActivity: Date.now() });
+          Logger.info('MCP session opened', { sessionId: newSessionId, clientId, transport: 'streamable-http' });
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.removeSession(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      Logger.error('Failed to handle MCP request', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private async handleStreamableSessionRequest(req: Request, res: Response) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? this.getSession(req, sessionId, StreamableHTTPServerTransport) : undefined;
+
+    if (!session) {
+      this.sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    try {
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error) {
+      Logger.error('Failed to handle MCP session request', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  }
+
+  private async handleSseConnect(req: Request, res: Response) {
+    if (this.sessions.size >= config.mcp.maxSessions) {
+      res.status(503).json({ error: 'Maximum number of concurrent sessions reached' });
+      return;
+    }
+
+    try {
+      const clientId = (req as AuthenticatedRequest).auth?.clientId;
+      const server = this.options.createServer();
+      const transport = new SSEServerTransport('/messages', res);
+      this.sessions.set(transport.sessionId, { transport, server, clientId, lastActivity: Date.now() });
+      Logger.info('MCP session opened', { sessionId: transport.sessionId, clientId, transport: 'sse' });
+
+      res.on('close', () => this.removeSession(transport.sessionId));
+
+      await server.connect(transport);
+    } catch (error) {
+      Logger.error('Failed to open SSE session', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response) {
+    const sessionId = req.query.sessionId as string | undefined;
+    const session = sessionId ? this.getSession(req, sessionId, SSEServerTransport) : undefined;
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    try {
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+    } catch (error) {
+      Logger.error('Failed to handle SSE message', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  private getSession(
+    req: Request,
+    sessionId: string,
+    transportType: typeof StreamableHTTPServerTransport | typeof SSEServerTransport
+  ): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || !(session.transport instanceof transportType)) {
+      return undefined;
+    }
+
+    // Sessions are bound to the client that opened them
+    if (session.clientId !== (req as AuthenticatedRequest).auth?.clientId) {
+      Logger.warn('MCP session used by a different client', { sessionId, clientId: (req as AuthenticatedRequest).auth?.clientId });
+      return undefined;
+    }
+
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  private removeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    session.server.close().catch((error) => {
+      Logger.error('Failed to close MCP session', error);
+    });
+    Logger.info('MCP session closed', { sessionId });
+  }
+
+  private sweepIdleSessions() {
+    const cutoff = Date.now() - config.mcp.sessionIdleTimeoutMs;
+
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        Logger.info('Closing idle MCP session', { sessionId });
+        this.removeSession(sessionId);
+      }
+    }
+  }
+
+  private sendJsonRpcError(res: Response, status: number, message: string) {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message,
+      },
+      id: null,
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer = this.app.listen(config.port, config.mcp.host, () => resolve());
+      this.httpServer.once('error', reject);
+    });
+
+    this.sweepTimer = setInterval(() => this.sweepIdleSessions(), Math.min(config.mcp.sessionIdleTimeoutMs, 60000));
+    this.sweepTimer.unref();
+
+    Logger.info('Spline MCP Server listening for HTTP connections', {
+      host: config.mcp.host,
+      port: config.port,
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.removeSession(sessionId);
+    }
+
+    if (this.httpServer) {
+      await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+    }
+  }
+}
@@ -1,12 +1,27 @@
 import { Logger } from './logger';
 
+export interface ErrorInfo {
+  statusCode: number;
+  code: string;
+  message: string;
+  /** Whether repeating the same call later may succeed */
+  retryable: boolean;
+  retryAfterMs?: number;
+  /** HTTP status returned by the Spline API, if it answered */
+  upstreamStatus?: number;
+  /** Request ID of the failed Spline API call, for support tickets */
+  splineRequestId?: string;
+  violations?: string[];
+}
+
 export class SplineError extends Error {
   public statusCode: number;
   public code: string;
   public isOperational: boolean;
+  public retryable = false;
 
-  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_ERROR', isOperational: boolean = true) {
-    super(message);
+  constructor(message: string, statusCode: number = 500, code: string = 'INTERNAL_ERROR', isOperational: boolean = true, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
     this.statusCode = statusCode;
     this.code = code;
     this.isOperational = isOperational;
@@ -16,8 +31,11 @@ export class SplineError extends Error {
 }
 
 export class ValidationError extends SplineError {
-  constructor(message: string) {
+  public violations?: string[];
+
+  constructor(message: string, violations?: string[]) {
     super(message, 400, 'VALIDATION_ERROR');
+    this.violations = violations;
   }
 }
 
@@ -40,19 +58,36 @@ export class NotFoundError extends SplineError {
 }
 
 export class RateLimitError extends SplineError {
-  constructor(message: string = 'Rate limit exceeded') {
+  public retryAfterMs?: number;
+
+  constructor(message: string = 'Rate limit exceeded', retryAfterMs?: number) {
     super(message, 429, 'RATE_LIMIT_EXCEEDED');
+    this.retryAfterMs = retryAfterMs;
+    this.retryable = true;
   }
 }
 
+export interface SplineApiErrorDetails {
+  upstreamStatus?: number;
+  splineRequestId?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
 export class SplineApiError extends SplineError {
-  constructor(message: string, statusCode: number = 500) {
-    super(`Spline API Error: ${message}`, statusCode, 'SPLINE_API_ERROR');
+  public upstreamStatus?: number;
+  public splineRequestId?: string;
+
+  constructor(message: string, statusCode: number = 500, details: SplineApiErrorDetails = {}) {
+    super(`Spline API Error: ${message}`, statusCode, 'SPLINE_API_ERROR', true, details.cause);
+    this.upstreamStatus = details.upstreamStatus;
+    this.splineRequestId = details.splineRequestId;
+    this.retryable = details.retryable ?? (statusCode === 429 || statusCode >= 500);
   }
 }
 
 export class ErrorHandler {
-  static handle(error: Error): { statusCode: number; code: string; message: string } {
+  static handle(error: Error): ErrorInfo {
     Logger.error('Error occurred', error);
 
     if (error instanceof SplineError) {
@@ -60,6 +95,13 @@ export class ErrorHandler {
         statusCode: error.statusCode,
         code: error.code,
         message: error.message,
+        retryable: error.retryable,
+        ...(error instanceof RateLimitError && { retryAfterMs: error.retryAfterMs }),
+        ...(error instanceof SplineApiError && {
+          upstreamStatus: error.upstreamStatus,
+          splineRequestId: error.splineRequestId,
+        }),
+        ...(error instanceof ValidationError && { violations: error.violations }),
       };
     }
 
@@ -69,6 +111,7 @@ export class ErrorHandler {
         statusCode: 400,
         code: 'VALIDATION_ERROR',
         message: error.message,
+        retryable: false,
       };
     }
 
@@ -77,6 +120,7 @@ export class ErrorHandler {
         statusCode: 401,
         code: 'INVALID_TOKEN',
         message: 'Invalid authentication token',
+        retryable: false,
       };
     }
 
@@ -85,6 +129,7 @@ export class ErrorHandler {
         statusCode: 401,
         code: 'TOKEN_EXPIRED',
         message: 'Authentication token expired',
+        retryable: false,
       };
     }
 
@@ -93,6 +138,7 @@ export class ErrorHandler {
       statusCode: 500,
       code: 'INTERNAL_ERROR',
       message: 'An unexpected error occurred',
+      retryable: false,
     };
   }
 
@@ -100,7 +146,10 @@ export class ErrorHandler {
     try {
       return await fn();
     } catch (error) {
-      throw error instanceof SplineError ? error : new SplineError(error.message);
+      // Keep the original error as the cause so its stack survives the wrapping
+      throw error instanceof SplineError
+        ? error
+        : new SplineError((error as Error).message, 500, 'INTERNAL_ERROR', false, error);
     }
   }
 }
\ No newline at end of file
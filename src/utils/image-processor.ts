@@ -0,0 +1,129 @@
+import { AxiosError } from 'axios';
+import Jimp from 'jimp';
+import { config } from '../config/config';
+import { SplineApiError, SplineError } from './error-handler';
+import { SplineApiClient } from '../api/spline-api-client';
+
+export type ImageFormat = 'png' | 'jpeg';
+
+export interface ImageOptions {
+  format: ImageFormat;
+  /** Longest side in pixels; larger images are scaled down to fit, smaller ones are left alone */
+  maxDimension?: number;
+  /** JPEG quality from 1 to 100 */
+  quality?: number;
+}
+
+export interface LabelledImage {
+  label: string;
+  image: Jimp;
+}
+
+export interface EncodedImage {
+  /** Base64-encoded image data */
+  data: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+}
+
+// Previews are rendered at most 4096px square; anything bigger than this is not an image we asked for
+const MAX_SOURCE_IMAGE_BYTES = 25 * 1024 * 1024;
+
+const LABEL_HEIGHT = 22;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: Jimp.MIME_PNG,
+  jpeg: Jimp.MIME_JPEG,
+};
+
+export class ImageProcessor {
+  private static labelFont?: ReturnType<typeof Jimp.loadFont>;
+
+  /**
+   * Downloads an image, e.g. a preview rendered by Spline.
+   */
+  static async download(url: string): Promise<Buffer> {
+    try {
+      const response = await SplineApiClient.shared().download<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: config.spline.timeout,
+        maxContentLength: MAX_SOURCE_IMAGE_BYTES,
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      // e.g. a download missing from the cassette being replayed
+      if (error instanceof SplineError) {
+        throw error;
+      }
+      const status = (error as AxiosError).response?.status;
+      throw new SplineApiError(`Could not download image: ${(error as Error).message}`, status ?? 502, {
+        upstreamStatus: status,
+        retryable: status === undefined || status >= 500,
+        cause: error,
+      });
+    }
+  }
+
+  static async read(source: Buffer): Promise<Jimp> {
+    return Jimp.read(source);
+  }
+
+  /**
+   * Scales the image down to `maxDimension` and re-encodes it, returning base64 ready for MCP image content.
+   */
+  static async encode(image: Jimp, options: ImageOptions): Promise<EncodedImage> {
+    const { width, height } = image.bitmap;
+    const output = image.clone();
+
+    if (options.maxDimension && Math.max(width, height) > options.maxDimension) {
+      output.scaleToFit(options.maxDimension, options.maxDimension);
+    }
+    if (options.format === 'jpeg') {
+      output.quality(options.quality ?? 80);
+    }
+
+    const buffer = await output.getBufferAsync(MIME_TYPES[options.format]);
+
+    return {
+      data: buffer.toString('base64'),
+      mimeType: MIME_TYPES[options.format],
+      width: output.bitmap.width,
+      height: output.bitmap.height,
+      sizeBytes: buffer.length,
+    };
+  }
+
+  /**
+   * Lays images out in a labelled grid, scaled down so the whole sheet fits within `maxDimension`.
+   */
+  static async contactSheet(images: LabelledImage[], maxDimension: number): Promise<Jimp> {
+    const columns = Math.ceil(Math.sqrt(images.length));
+    const rows = Math.ceil(images.length / columns);
+    const cellWidth = Math.max(...images.map(({ image }) => image.bitmap.width));
+    const cellHeight = Math.max(...images.map(({ image }) => image.bitmap.height));
+    const scale = Math.min(1, maxDimension / Math.max(columns * cellWidth, rows * cellHeight));
+    const tileWidth = Math.floor(cellWidth * scale);
+    const tileHeight = Math.floor(cellHeight * scale);
+
+    this.labelFont ??= Jimp.loadFont(Jimp.FONT_SANS_16_WHITE);
+    const font = await this.labelFont;
+    const sheet = new Jimp(columns * tileWidth, rows * tileHeight, 0x000000ff);
+
+    images.forEach(({ label, image }, index) => {
+      const x = (index % columns) * tileWidth;
+      const y = Math.floor(index / columns) * tileHeight;
+
+      sheet.composite(image.clone().scaleToFit(tileWidth, tileHeight), x, y);
+      sheet.composite(new Jimp(Jimp.measureText(font, label) + 8, LABEL_HEIGHT, 0x000000b3), x, y);
+      sheet.print(font, x + 4, y + 3, label);
+    });
+
+    return sheet;
+  }
+
+  static async downloadAndEncode(url: string, options: ImageOptions): Promise<EncodedImage> {
+    return this.encode(await this.read(await this.download(url)), options);
+  }
+}
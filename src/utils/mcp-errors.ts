@@ -0,0 +1,80 @@
+import { CallToolResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorInfo } from './error-handler';
+
+/**
+ * Server-defined JSON-RPC error codes, from the implementation-defined range -32000 to -32099.
+ */
+export enum SplineMcpErrorCode {
+  Unauthorized = -32001,
+  ResourceNotFound = -32002,
+  RateLimited = -32029,
+}
+
+const PROTOCOL_ERROR_CODES: Record<string, number> = {
+  VALIDATION_ERROR: ErrorCode.InvalidParams,
+  NOT_FOUND: SplineMcpErrorCode.ResourceNotFound,
+  RATE_LIMIT_EXCEEDED: SplineMcpErrorCode.RateLimited,
+  AUTHENTICATION_ERROR: SplineMcpErrorCode.Unauthorized,
+  AUTHORIZATION_ERROR: SplineMcpErrorCode.Unauthorized,
+  INVALID_TOKEN: SplineMcpErrorCode.Unauthorized,
+  TOKEN_EXPIRED: SplineMcpErrorCode.Unauthorized,
+};
+
+// Failures the model can act on itself, e.g. by listing scenes for a valid ID or adjusting the payload
+const TOOL_LEVEL_ERROR_CODES = new Set(['NOT_FOUND', 'SPLINE_API_ERROR', 'ARTIFACT_TOO_LARGE']);
+
+export class McpErrorMapper {
+  static isToolLevel(errorInfo: ErrorInfo): boolean {
+    return TOOL_LEVEL_ERROR_CODES.has(errorInfo.code);
+  }
+
+  /**
+   * The error data, e.g. validation violations or a retry hint, travels in the JSON-RPC error's
+   * `data`, which the SDK forwards from 1.23 on; package.json pins that version.
+   */
+  static toMcpError(errorInfo: ErrorInfo): McpError {
+    return new McpError(
+      PROTOCOL_ERROR_CODES[errorInfo.code] ?? ErrorCode.InternalError,
+      errorInfo.message,
+      this.toErrorData(errorInfo)
+    );
+  }
+
+  static toToolResult(errorInfo: ErrorInfo): CallToolResult {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: errorInfo.message,
+            ...this.toErrorData(errorInfo),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Tool errors surface as `isError` results the model can read; everything else is a protocol error.
+   */
+  static fromToolError(errorInfo: ErrorInfo): CallToolResult {
+    if (this.isToolLevel(errorInfo)) {
+      return this.toToolResult(errorInfo);
+    }
+    throw this.toMcpError(errorInfo);
+  }
+
+  static toErrorData(errorInfo: ErrorInfo) {
+    return {
+      code: errorInfo.code,
+      statusCode: errorInfo.statusCode,
+      retryable: errorInfo.retryable,
+      ...(errorInfo.retryAfterMs !== undefined && { retryAfterMs: errorInfo.retryAfterMs }),
+      ...(errorInfo.upstreamStatus !== undefined && { upstreamStatus: errorInfo.upstreamStatus }),
+      ...(errorInfo.splineRequestId !== undefined && { splineRequestId: errorInfo.splineRequestId }),
+      ...(errorInfo.violations !== undefined && { violations: errorInfo.violations }),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { MOCK_SCENE_ID, startHarness, TestHarness } from '../testing/mcp-harness';
+
+describe('per-tool rate limits', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await startHarness({ env: { TOOL_RATE_LIMITS: 'spline_get_scene=3,spline_list_scenes=100' } });
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('rejects calls over the limit with a retry hint', async () => {
+    for (let call = 0; call < 3; call++) {
+      const result = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID });
+      expect(result.isError).toBeFalsy();
+    }
+
+    const error = await harness.callTool('spline_get_scene', { sceneId: MOCK_SCENE_ID }).catch(rejection => rejection);
+    expect(error).toMatchObject({
+      code: -32029,
+      message: expect.stringContaining('Rate limit exceeded for spline_get_scene: 3 calls per 60s'),
+      data: { code: 'RATE_LIMIT_EXCEEDED', retryable: true, retryAfterMs: expect.any(Number) },
+    });
+    expect(harness.mock.getRequests()).toHaveLength(3);
+  });
+
+  it('counts each tool separately', async () => {
+    const result = await harness.callTool('spline_list_scenes');
+
+    expect(result.isError).toBeFalsy();
+  });
+});
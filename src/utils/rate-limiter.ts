@@ -6,6 +6,70 @@ import { RateLimitError } from './error-handler';
 
 let redisClient: any = null;
 
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+/**
+ * In-process token buckets used when Redis is not configured. Each bucket holds up to
+ * `limit` tokens and refills continuously at `limit` tokens per `windowMs`.
+ */
+class MemoryTokenBucketStore {
+  private buckets = new Map<string, TokenBucket>();
+
+  consume(key: string, limit: number, windowMs: number): RateLimitResult {
+    const now = Date.now();
+    const refillPerMs = limit / windowMs;
+    const bucket = this.buckets.get(key) ?? { tokens: limit, updatedAt: now };
+
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    if (!this.buckets.has(key)) {
+      this.evictFullBuckets(now);
+    }
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    }
+
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs),
+    };
+  }
+
+  private evictFullBuckets(now: number) {
+    if (this.buckets.size < MAX_MEMORY_BUCKETS) {
+      return;
+    }
+
+    // Buckets untouched for a long time are full again and equivalent to no bucket at all
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 3600000) {
+        this.buckets.delete(key);
+      }
+    }
+
+    // Still over capacity: drop the least recently inserted
+    while (this.buckets.size >= MAX_MEMORY_BUCKETS) {
+      this.buckets.delete(this.buckets.keys().next().value!);
+    }
+  }
+}
+
 if (config.redis.url) {
   redisClient = createClient({
     url: config.redis.url,
@@ -53,8 +117,19 @@ export class RateLimiter {
         return 1;
       }
     },
+
+    async ttlMs(key: string) {
+      try {
+        return Math.max(0, await redisClient.pTTL(key));
+      } catch (error) {
+        Logger.error('Redis ttl error', error);
+        return 0;
+      }
+    },
   } : null;
 
+  private static memoryStore = new MemoryTokenBucketStore();
+
   static createLimiter(windowMs: number = config.rateLimit.windowMs, max: number = config.rateLimit.maxRequests) {
     return rateLimit({
       windowMs,
@@ -65,7 +140,7 @@ export class RateLimiter {
       store: this.store ? {
         async get(key: string) {
           const data = await RateLimiter.store!.get(`rl:${key}`);
-          return data ? { totalHits: data.count, resetTime: new Date(data.resetTime) } : null;
+          return data ? { totalHits: data.count, resetTime: new Date(data.resetTime) } : undefined;
         },
 
         async increment(key: string) {
@@ -99,15 +174,57 @@ export class RateLimiter {
     });
   }
 
-  static async checkCustomLimit(identifier: string, limit: number, windowMs: number): Promise<boolean> {
-    if (!this.store) {
-      return true; // Allow if no Redis store
+  static isRedisConfigured(): boolean {
+    return redisClient !== null;
+  }
+
+  static async pingRedis(): Promise<boolean> {
+    if (!redisClient?.isReady) {
+      return false;
+    }
+
+    try {
+      return (await redisClient.ping()) === 'PONG';
+    } catch (error) {
+      Logger.error('Redis ping error', error);
+      return false;
     }
+  }
 
+  static async consume(identifier: string, limit: number, windowMs: number): Promise<RateLimitResult> {
     const key = `custom:${identifier}`;
+
+    if (!this.store) {
+      return this.memoryStore.consume(key, limit, windowMs);
+    }
+
     const ttl = Math.ceil(windowMs / 1000);
     const count = await this.store.increment(key, ttl);
-    
-    return count <= limit;
+
+    if (count <= limit) {
+      return { allowed: true, remaining: limit - count, retryAfterMs: 0 };
+    }
+
+    return { allowed: false, remaining: 0, retryAfterMs: await this.store.ttlMs(key) };
+  }
+
+  static async checkCustomLimit(identifier: string, limit: number, windowMs: number): Promise<boolean> {
+    return (await this.consume(identifier, limit, windowMs)).allowed;
+  }
+
+  /**
+   * Checks the per-tool limit for a caller, throwing a RateLimitError with a retry hint when exceeded.
+   * Tools without an explicit limit in TOOL_RATE_LIMITS use the default tool limit.
+   */
+  static async enforceToolLimit(toolName: string, subject: string): Promise<void> {
+    const { limit, windowMs } = config.rateLimit.tools[toolName] ?? config.rateLimit.toolDefault;
+    const result = await this.consume(`tool:${subject}:${toolName}`, limit, windowMs);
+
+    if (!result.allowed) {
+      throw new RateLimitError(
+        `Rate limit exceeded for ${toolName}: ${limit} calls per ${Math.round(windowMs / 1000)}s, retry after ${Math.ceil(result.retryAfterMs / 1000)}s`,
+        result.retryAfterMs
+      );
+    }
   }
 }
\ No newline at end of file